@@ -1,6 +1,7 @@
-import {AsyncSystemConfig, ClusterItems} from '../models';
+import {AsyncSystemConfig, ClusterItems, ComputedUnitSource} from '../models';
 import {Base} from '../lib/abstract-base';
-import {isDict, isSerializable, NOOP} from '../utils/funcs';
+import {Selection} from '../lib/selection';
+import {isDict, isFunction, isSerializable, NOOP} from '../utils/funcs';
 import {logWarn} from '../utils/logger';
 
 export function checkAsyncSystemConfig(config: AsyncSystemConfig<any, any, any>): () => void {
@@ -40,6 +41,26 @@ export function checkClusterItems(items: ClusterItems): void {
   }
 }
 
+export function checkComputedUnitSources(
+  sources: ComputedUnitSource[],
+  projector: (...values: any[]) => any
+): void {
+  if (
+    !Array.isArray(sources) ||
+    !sources.length ||
+    !sources.every(source => source instanceof Base || source instanceof Selection)
+  ) {
+    throw new TypeError(
+      `Expected at least one Unit, System, Action, Cluster or Selection, and nothing else; got ${String(
+        sources
+      )}`
+    );
+  }
+  if (!isFunction(projector)) {
+    throw new TypeError(`Expected a projector function, got ${String(projector)}`);
+  }
+}
+
 export function checkPath(path: (string | number)[]): void {
   if (!path.length) {
     throw new TypeError(`Expected at least one key`);
@@ -1,8 +1,10 @@
 import '../../../../LICENSE';
-import {BehaviorSubject, Observable, Subject} from 'rxjs';
-import {BaseConfig, BaseEvents, EventReplay, UnitConfig} from '../models';
+import {BehaviorSubject, Observable, Subject, Subscription} from 'rxjs';
+import {BaseConfig, BaseEvents, EventDispose, EventReplay, UnitConfig} from '../models';
 import {getLocationId, isFunction, isValidId} from '../utils/funcs';
 import {Configuration, UniqueIdsAndLocationIdMap} from './configuration';
+import {Registry} from './registry';
+import {deferEmission} from './transaction';
 
 /**
  * This is the most basic building block of ActiveJS.
@@ -85,6 +87,33 @@ export abstract class Base<T> extends Observable<T> {
    */
   private _emitCount = 0;
 
+  /**
+   * @internal please do not use.
+   *
+   * The internal subscriptions to be torn down on {@link dispose}.
+   */
+  protected readonly subscriptions = new Subscription();
+
+  /**
+   * @internal please do not use.
+   */
+  private _isDisposed = false;
+
+  /**
+   * @internal please do not use.
+   *
+   * The location id claimed by this instance in the "checkUniqueId" map, if any.
+   */
+  private _locationId: string;
+
+  /**
+   * Indicates whether the Unit, System, Action or Cluster has been disposed or not.
+   * See {@link dispose} for more details.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
   /**
    * A counter to keep track of how many times has a Unit, System, Action or Cluster emitted.
    * @returns Number of times a Unit, System, Action or Cluster has emitted.
@@ -136,6 +165,7 @@ export abstract class Base<T> extends Observable<T> {
           );
         }
         UniqueIdsAndLocationIdMap[this.config.id] = locationId;
+        this._locationId = locationId;
       }
     } else if ((this.config as UnitConfig<any>).persistent === true) {
       throw new TypeError(`An id is required for persistence to work.`);
@@ -181,6 +211,50 @@ export abstract class Base<T> extends Observable<T> {
     }
   }
 
+  /**
+   * Disposes the Unit, System, Action or Cluster, when it's not needed anymore,
+   * e.g.: when the component that created it gets destroyed. \
+   * It can not be undone.
+   *
+   * It completes the default Observable, {@link future$} and {@link events$},
+   * tears down the internal subscriptions, unregisters it from the {@link Registry},
+   * and frees up its id for the `checkUniqueId` check, see {@link EnvironmentConfig.checkUniqueId}.
+   *
+   * After that, it doesn't emit anymore.
+   *
+   * @triggers {@link EventDispose}
+   * @category Common
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this.subscriptions.unsubscribe();
+
+    if (this.config.id !== undefined) {
+      // the id might have been taken over by a newer instance, it only gets released by its owner
+      const owner = Registry.get(this.config.id);
+      if (owner === this) {
+        Registry.unregister(this);
+      }
+      if (
+        this._locationId !== undefined &&
+        UniqueIdsAndLocationIdMap[this.config.id] === this._locationId &&
+        (owner === undefined || owner === this)
+      ) {
+        delete UniqueIdsAndLocationIdMap[this.config.id];
+      }
+    }
+
+    if (this.eventsSubject?.observers.length) {
+      this.eventsSubject.next(new EventDispose());
+    }
+    this.eventsSubject?.complete();
+    this.sourceSubject.complete();
+    this.futureSubject.complete();
+  }
+
   /**
    * Converts the value to JSON string, using `JSON.stringify`.
    *
@@ -220,10 +294,26 @@ export abstract class Base<T> extends Observable<T> {
     return this.rawValue();
   }
 
+  /**
+   * @internal please do not use.
+   *
+   * Registers the instance in the {@link Registry}, if it has an id. \
+   * It's called at the end of the construction by the concrete classes,
+   * so that only fully constructed instances get registered.
+   */
+  protected registerMaybe(): void {
+    if (this.config.id !== undefined && Registry.get(this.config.id) !== this) {
+      Registry.register(this);
+    }
+  }
+
   /**
    * @internal please do not use.
    */
   protected emit(value: T = this.value()): void {
+    if (this._isDisposed || deferEmission(this)) {
+      return;
+    }
     ++this._emitCount;
     this.emittedValue = value;
 
@@ -245,6 +335,9 @@ export abstract class Base<T> extends Observable<T> {
 
         this.eventsSubject = new Subject<BaseEvents<T>>();
         this._events = this.eventsSubject.asObservable();
+        if (this._isDisposed) {
+          this.eventsSubject.complete();
+        }
 
         Object.defineProperty(this, 'eventsSubject', {enumerable: false});
         Object.defineProperty(this, '_events', {enumerable: false});
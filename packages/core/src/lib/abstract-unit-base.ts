@@ -1,7 +1,11 @@
-import {Observable, Subject} from 'rxjs';
+import {BehaviorSubject, Observable, Subject} from 'rxjs';
+import {first, mapTo} from 'rxjs/operators';
 import {
+  AsyncStorageAdapter,
+  CachePatches,
   ClearCacheOptions,
   DispatchFailReason,
+  DispatchMiddleware,
   DispatchOptions,
   DispatchValueProducer,
   EventUnitClear,
@@ -12,19 +16,61 @@ import {
   EventUnitDispatchFail,
   EventUnitFreeze,
   EventUnitJump,
+  EventUnitPersistedValueMigrationFail,
+  EventUnitPersistedValueSync,
+  EventUnitPersistFail,
   EventUnitReset,
   EventUnitResetValue,
   EventUnitUnfreeze,
   EventUnitUnmute,
+  PersistenceSyncTransport,
+  PersistentStorage,
   UnitConfig,
   UnitEvents,
+  UnitHistoryEntry,
+  UnitSnapshot,
   UnitStreamObservableProducer,
+  ValidationError,
 } from '../models';
 import {Base} from './abstract-base';
 import {Configuration} from './configuration';
 import {Stream} from './stream';
-import {remove, retrieve, save} from './persistence';
-import {debounce, deepCopy, deepFreeze, isNumber} from '../utils/funcs';
+import {produce} from './produce';
+import {CacheEntry, createValueCache, ValueCache} from './value-cache';
+import {
+  addPendingWrite,
+  defaultStorage,
+  isAsyncStorage,
+  KeyPrefix,
+  MemoryStorage,
+  parsePersistedState,
+  PersistedState,
+  remove,
+  removePendingWrite,
+  retrieve,
+  retrieveAsync,
+  save,
+  saveEvictingOldest,
+  StorageEventSyncTransport,
+  stringifyPersistedState,
+} from './persistence';
+import {takeHydratedState} from './ssr';
+import {addRollbackRestorer, needsRollbackRestorer} from './transaction';
+import {
+  debounce,
+  deepCopy,
+  deepFreeze,
+  deleteAtPath,
+  findIndexBackwards,
+  hasPath,
+  isFunction,
+  isNumber,
+  isObject,
+  isValidKey,
+  plucker,
+  setAtPath,
+} from '../utils/funcs';
+import {logWarn} from '../utils/logger';
 import {checkSerializability} from '../checks/common';
 
 /**
@@ -77,10 +123,12 @@ export abstract class UnitBase<T> extends Base<T> {
    * Indicates whether the Unit is frozen or not.
    * See {@link freeze} for more details.
    *
+   * A disposed Unit stays frozen forever, see {@link dispose}.
+   *
    * Note: It's not the same as [Object.isFrozen](https://cutt.ly/WyFdzPD).
    */
   get isFrozen(): boolean {
-    return this._isFrozen;
+    return this._isFrozen || this.isDisposed;
   }
 
   /**
@@ -101,6 +149,95 @@ export abstract class UnitBase<T> extends Base<T> {
     return this._isMuted;
   }
 
+  /**
+   * @internal please do not use.
+   */
+  private readonly hydratedSubject = new BehaviorSubject<boolean>(true);
+
+  /**
+   * An Observable that emits whether the persisted value has been restored or not. \
+   * It replays the current status on subscription.
+   *
+   * See {@link isHydrated} for more details.
+   */
+  readonly hydrated$: Observable<boolean> = this.hydratedSubject.asObservable();
+
+  /**
+   * Indicates whether the persisted value has been restored or not.
+   *
+   * It's always `true`, unless the Unit is persistent and the storage is an {@link AsyncStorageAdapter},
+   * in which case the Unit starts with its initial value, \
+   * and it becomes `true` once the persisted value has been retrieved and restored.
+   *
+   * While the Unit is not hydrated, writes to the storage are deferred until the restoration finishes. \
+   * If a new value gets dispatched before the restoration finishes,
+   * the persisted value is discarded in favor of the new value.
+   */
+  get isHydrated(): boolean {
+    return this.hydratedSubject.value;
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private _migrationFail: EventUnitPersistedValueMigrationFail;
+
+  /**
+   * The latest failed migration of a persisted value, if any, see {@link UnitConfig.persistenceVersion}.
+   *
+   * With a synchronous storage, e.g.: `localStorage`, the persisted value is restored during the construction,
+   * before {@link EventUnitPersistedValueMigrationFail} can be observed using {@link events$},
+   * so it can be checked here instead.
+   */
+  get migrationFail(): EventUnitPersistedValueMigrationFail | undefined {
+    return this._migrationFail;
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private changedWhileHydrating = false;
+
+  /**
+   * @internal please do not use.
+   */
+  private syncTransport: PersistenceSyncTransport;
+
+  /**
+   * @internal please do not use.
+   */
+  private stopSyncingAcrossTabs: () => void;
+
+  /**
+   * @internal please do not use.
+   */
+  private isApplyingSyncedValue = false;
+
+  /**
+   * @internal please do not use.
+   *
+   * The global middlewares followed by the Unit's own middlewares.
+   */
+  private readonly middlewares: DispatchMiddleware<T>[];
+
+  /**
+   * @internal please do not use.
+   */
+  private pendingWriteTimeout: ReturnType<typeof setTimeout>;
+
+  /**
+   * @internal please do not use.
+   */
+  private lastWrittenAt = 0;
+
+  /**
+   * @internal please do not use.
+   *
+   * The storage that replaces the configured storage, if writing to it failed,
+   * see {@link UnitConfig.persistFailStrategy}.
+   */
+  private fallbackStorage: MemoryStorage;
+
   /**
    * Indicates whether the value is undefined or not.
    *
@@ -110,6 +247,16 @@ export abstract class UnitBase<T> extends Base<T> {
     return this.rawValue() === this.defaultValue();
   }
 
+  /**
+   * @internal please do not use.
+   *
+   * Whether the Unit keeps its value immutable using structural sharing,
+   * see {@link SharedUnitConfig.immutabilityMode}.
+   */
+  private get sharesStructure(): boolean {
+    return this.config.immutable === true && this.config.immutabilityMode === 'STRUCTURAL_SHARING';
+  }
+
   /**
    * Size of the cache, dictating how many values can be cached at a given time.
    *
@@ -122,13 +269,13 @@ export abstract class UnitBase<T> extends Base<T> {
   /**
    * @internal please do not use.
    */
-  protected readonly _cachedValues: T[] = [];
+  protected readonly cache: ValueCache<T>;
 
   /**
    * Count of all the cached values.
    */
   get cachedValuesCount(): number {
-    return this._cachedValues.length;
+    return this.cache.length;
   }
 
   /**
@@ -155,7 +302,8 @@ export abstract class UnitBase<T> extends Base<T> {
 
   /**
    * The initialValue provided on instantiation.
-   * Creates a copy if the Unit is configured to be immutable.
+   * Creates a copy if the Unit is configured to be immutable, \
+   * unless it uses structural sharing, see {@link SharedUnitConfig.immutabilityMode}.
    *
    * @category Access Value
    */
@@ -165,7 +313,8 @@ export abstract class UnitBase<T> extends Base<T> {
 
   /**
    * Current value of the Unit.
-   * Creates a copy if the Unit is configured to be immutable.
+   * Creates a copy if the Unit is configured to be immutable, \
+   * unless it uses structural sharing, see {@link SharedUnitConfig.immutabilityMode}.
    *
    * @default
    * BoolUnit: `false` \
@@ -196,12 +345,28 @@ export abstract class UnitBase<T> extends Base<T> {
 
   /**
    * All the cached values.
-   * Creates a copy if the Unit is configured to be immutable.
+   * Creates a copy if the Unit is configured to be immutable, \
+   * unless it uses structural sharing, see {@link SharedUnitConfig.immutabilityMode}.
    *
    * @category Access Value
    */
   cachedValues(): T[] {
-    return this._cachedValues.map(value => this.deepCopyMaybe(value));
+    return this.cache.values().map(value => this.deepCopyMaybe(value));
+  }
+
+  /**
+   * The patches between the successive cached values, \
+   * the patches at index `i` convert the cached value at index `i` to the one at index `i + 1`, and back.
+   *
+   * If the Unit is configured to use `PATCHES` as {@link SharedUnitConfig.historyMode}, they are already stored,
+   * otherwise they are created from the cached values.
+   *
+   * It can come in handy to send only the changes to a server, instead of the whole value.
+   *
+   * @category Access Value
+   */
+  cachedPatches(): CachePatches[] {
+    return this.deepCopyMaybe(this.cache.patches());
   }
 
   /**
@@ -231,17 +396,39 @@ export abstract class UnitBase<T> extends Base<T> {
 
     const {
       cacheSize,
+      historyMode,
       initialValue,
       dispatchDebounce,
       dispatchDebounceMode,
       persistent,
+      middlewares,
     }: UnitConfig<T> = this.config;
 
     this.cacheSize = isNumber(cacheSize) ? Math.max(1, cacheSize) : 2; // min 1, default 2
+    this.cache = createValueCache<T>(historyMode);
 
+    const globalMiddlewares = Configuration.UNITS.middlewares;
+    this.middlewares = [
+      ...validMiddlewares(globalMiddlewares),
+      ...(middlewares !== globalMiddlewares ? validMiddlewares(middlewares) : []),
+    ];
+
+    // the state transferred from the server takes precedence over the persisted and initial values
     if (persistent === true) {
-      this.restoreValueFromPersistentStorage(initialValue);
-    } else {
+      const storage = this.config.storage || defaultStorage();
+
+      if (!this.restoreValueFromHydratedStateMaybe()) {
+        if (isAsyncStorage(storage)) {
+          this.restoreValueFromAsyncStorage(initialValue, storage);
+        } else {
+          this.restoreValueFromPersistentStorage(initialValue);
+        }
+      }
+
+      if (this.config.syncAcrossTabs) {
+        this.startSyncingAcrossTabs(storage);
+      }
+    } else if (!this.restoreValueFromHydratedStateMaybe()) {
       this.checkSerializabilityMaybe(initialValue);
       this.dispatchInitialValue(this.deepCopyMaybe(initialValue));
     }
@@ -277,10 +464,13 @@ export abstract class UnitBase<T> extends Base<T> {
    * Given a value, this function determines whether it should be dispatched or not. \
    * The dispatch is denied in following circumstances:
    * - If the Unit is frozen. {@link isFrozen}
+   * - If the value is out of the bounds of a NumUnit, see {@link NumUnitConfig}.
+   * - If the value doesn't pass the {@link UnitConfig.validate} check.
    * - If {@link UnitConfig.distinctDispatchCheck} is set to `true`, and the new-value === current-value,
    * - If {@link UnitConfig.customDispatchCheck} returns a `falsy` value.
    *
-   * If the Unit is not frozen, you can bypass other dispatch-checks by passing param `force = true`.
+   * If the Unit is not frozen, and the value passes the validation,
+   * you can bypass other dispatch-checks by passing param `force = true`.
    *
    * This function is used internally, when a value is dispatched {@link dispatch}. \
    * Even initialValue {@link UnitConfig.initialValue} dispatch has to pass this check.
@@ -294,19 +484,10 @@ export abstract class UnitBase<T> extends Base<T> {
    * @category Common Units
    */
   wouldDispatch(value: T, force = false): boolean {
-    if (this.isFrozen) {
-      return false;
-    }
-    if (force === true) {
-      return true;
-    }
-    if (
-      typeof this.config.customDispatchCheck === 'function' &&
-      !this.config.customDispatchCheck(this.rawValue(), value)
-    ) {
+    if (this.isFrozen || !this.isWithinBounds(value) || this.validateValue(value)) {
       return false;
     }
-    return this.distinctCheck(value);
+    return this.forceableChecks(value, force);
   }
 
   dispatch(value: T, options?: DispatchOptions): boolean | undefined;
@@ -321,7 +502,8 @@ export abstract class UnitBase<T> extends Base<T> {
    * Method to dispatch new value by passing the value directly, or \
    * by passing a value-producer-function that produces the value using the current {@link value}.
    *
-   * Given a value, it either gets dispatched if it's allowed by {@link wouldDispatch}, \
+   * Given a value, it first passes through the {@link SharedUnitConfig.middlewares}, if any, \
+   * then it either gets dispatched if it's allowed by {@link wouldDispatch}, \
    * or it gets ignored if not allowed.
    *
    * If the Unit is not configured to be immutable, then \
@@ -331,10 +513,15 @@ export abstract class UnitBase<T> extends Base<T> {
    * If you mutate the value, then the cached-value might also get mutated, \
    * as the cached-value is saved by reference, which can result in unpredictable state.
    *
+   * If the Unit uses structural sharing (see {@link SharedUnitConfig.immutabilityMode}), then \
+   * the value-producer-function receives a mutable draft of the current value instead, \
+   * the changes made to the draft are applied copy-on-write, see {@link produce}.
+   *
    * @param valueOrProducer A new-value, or a pure function that produces a new-value.
    * @param options Dispatch options.
    * @returns `true` if value got dispatched, otherwise `false`.
-   * If {@link UnitConfig.dispatchDebounce} is enabled, then it'll return `undefined`.
+   * If {@link UnitConfig.dispatchDebounce} is enabled, or a middleware delays the value
+   * (see {@link SharedUnitConfig.middlewares}), then it'll return `undefined`.
    *
    * @triggers {@link EventUnitDispatch}, or {@link EventUnitDispatchFail}, depending on the success of dispatch.
    * @category Common Action/Units
@@ -349,6 +536,32 @@ export abstract class UnitBase<T> extends Base<T> {
     return this.dispatchMiddleware(valueOrProducer, options);
   }
 
+  /**
+   * Returns a Promise that resolves once the Unit is hydrated, ie: the persisted value has been restored.
+   * See {@link isHydrated} for more details.
+   *
+   * @returns A Promise that resolves once the Unit is hydrated, immediately if it's already hydrated.
+   *
+   * @category Common Units
+   */
+  whenHydrated(): Promise<void> {
+    return this.hydrated$
+      .pipe(
+        first(isHydrated => isHydrated),
+        mapTo(undefined)
+      )
+      .toPromise();
+  }
+  /**
+   * Converts the value to JSON string, using `JSON.stringify`. \
+   * If {@link UnitConfig.serialize} is provided, the value is first converted to its serializable form.
+   *
+   * @category Common
+   */
+  toJsonString(): string {
+    return JSON.stringify(this.serializeValue(this.rawValue()));
+  }
+
   /**
    * To manually re-emit the last emitted value again. \
    * It doesn't work if the Unit is frozen {@link isFrozen} or muted {@link isMuted}.
@@ -469,15 +682,71 @@ export abstract class UnitBase<T> extends Base<T> {
       return false;
     }
 
+    this.addRollbackRestorerMaybe();
     this._cacheIndex = newIndex;
-    this.updateValueAndCache(this._cachedValues[this.cacheIndex], null, true);
+    this.updateValueAndCache(this.cache.get(this.cacheIndex), null, true);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
-      this.eventsSubject.next(new EventUnitJump(steps, newIndex));
+      this.eventsSubject.next(new EventUnitJump(steps, newIndex, this.cache.entry(newIndex).label));
+    }
+    return true;
+  }
+
+  /**
+   * Use this method to re-emit the latest value in the cache with the given label, \
+   * without creating a new entry in the cache.
+   *
+   * A value gets labelled by passing {@link DispatchOptions.label} on dispatch,
+   * or by creating a checkpoint using {@link checkpoint}.
+   *
+   * It doesn't work if the Unit is frozen {@link isFrozen}.
+   * It only works if a value with the label exists in the cache, and it's not the current {@link value}.
+   *
+   * @param label The label of the value to jump to.
+   * @returns `true` if the cache-navigation was successful, otherwise `false`.
+   *
+   * @triggers {@link EventUnitJump}
+   * @category Cache Navigation
+   */
+  jumpTo(label: string): boolean {
+    const index = findIndexBackwards(this.cache.entries(), entry => entry.label === label);
+
+    return index !== -1 && this.jump(index - this.cacheIndex);
+  }
+
+  /**
+   * Creates a named checkpoint, by labelling the current {@link value} in the cache,
+   * replacing its previous label, if any. \
+   * The checkpoint can be jumped to using {@link jumpTo}, as long as the value stays in the cache.
+   *
+   * It doesn't work if the Unit is frozen {@link isFrozen}.
+   *
+   * @param label The name of the checkpoint.
+   * @returns `true` if the checkpoint was created, otherwise `false`.
+   *
+   * @category Cache Navigation
+   */
+  checkpoint(label: string): boolean {
+    if (this.isFrozen || typeof label !== 'string' || !this.cache.has(this.cacheIndex)) {
+      return false;
     }
+    this.addRollbackRestorerMaybe();
+    this.cache.setLabel(this.cacheIndex, label);
     return true;
   }
 
+  /**
+   * The history entries of the cached values, in the same order as the {@link cachedValues}, \
+   * along with their labels, metadata and the time at which they got cached.
+   *
+   * Note: The labels and metadata are not persisted or snapshotted along with the cached values.
+   *
+   * @category Cache Navigation
+   */
+  history(): UnitHistoryEntry[] {
+    return this.cache.entries().map((entry, index) => ({index, ...entry}));
+  }
+
   /**
    * Get cached value at a given index.
    *
@@ -487,9 +756,7 @@ export abstract class UnitBase<T> extends Base<T> {
    * @category Common Units
    */
   getCachedValue(index: number): T | undefined {
-    return this._cachedValues.hasOwnProperty(index)
-      ? this.deepCopyMaybe(this._cachedValues[index])
-      : undefined;
+    return this.cache.has(index) ? this.deepCopyMaybe(this.cache.get(index)) : undefined;
   }
 
   /**
@@ -520,11 +787,16 @@ export abstract class UnitBase<T> extends Base<T> {
     ) {
       return false;
     }
+    this.addRollbackRestorerMaybe();
     const start = leaveFirst ? 1 : 0;
     const deleteCount = this.cachedValuesCount - start - (leaveLast ? 1 : 0);
-    this._cachedValues.splice(start, deleteCount);
+    this.cache.splice(start, deleteCount);
     this._cacheIndex = Math.max(0, this.cachedValuesCount - 1);
 
+    if (this.config.persistCache === true) {
+      this.updateValueInPersistentStorage();
+    }
+
     if (this.eventsSubject?.observers.length && !this.isMuted) {
       this.eventsSubject.next(new EventUnitClearCache(options));
     }
@@ -655,7 +927,7 @@ export abstract class UnitBase<T> extends Base<T> {
    * @category Common Units
    */
   unfreeze(): void {
-    if (!this.isFrozen) {
+    if (!this.isFrozen || this.isDisposed) {
       return;
     }
     this._isFrozen = false;
@@ -719,7 +991,14 @@ export abstract class UnitBase<T> extends Base<T> {
    */
   clearPersistedValue(): boolean {
     if (this.config.persistent === true) {
-      remove(this.config.id, this.config.storage);
+      this.cancelPendingWrite();
+      const result = remove(this.config.id, this.fallbackStorage || this.config.storage);
+
+      if (result instanceof Promise) {
+        result.catch(error =>
+          logWarn(`Couldn't clear the persisted value of Unit "${this.config.id}"`, error)()
+        );
+      }
 
       if (this.eventsSubject?.observers.length && !this.isMuted) {
         this.eventsSubject.next(new EventUnitClearPersistedValue());
@@ -730,23 +1009,126 @@ export abstract class UnitBase<T> extends Base<T> {
     return false;
   }
 
+  /**
+   * Immediately writes the pending value to the persistent storage,
+   * if the writes are being delayed by {@link UnitConfig.persistDebounce} or {@link UnitConfig.persistThrottle}.
+   *
+   * See {@link flushPersistentStorage} to flush all the Units at once.
+   *
+   * @returns `true` if there was a pending write, otherwise `false`.
+   *
+   * @category Common Units
+   */
+  flushPersistence(): boolean {
+    if (this.pendingWriteTimeout == null) {
+      return false;
+    }
+    this.cancelPendingWrite();
+    this.writeToPersistentStorage();
+    return true;
+  }
+
+  /**
+   * Disposes the Unit, see {@link Base.dispose}. \
+   * Additionally, it writes the pending value to the persistent storage, if any, see {@link flushPersistence},
+   * and stops syncing the value across tabs.
+   *
+   * After that, the Unit stays frozen forever, and dispatches fail with {@link DispatchFailReason.DISPOSED}.
+   *
+   * @triggers {@link EventDispose}
+   * @category Common Units
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this.flushPersistence();
+    this.stopSyncingAcrossTabs?.();
+    super.dispose();
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Captures the serializable state of the Unit, see {@link snapshotState}.
+   */
+  createSnapshot(): UnitSnapshot<any> {
+    return deepCopy({
+      value: this.serializeValue(this.rawValue()),
+      cachedValues: this.cache.values().map(cachedValue => this.serializeValue(cachedValue)),
+      cacheIndex: this.cacheIndex,
+      isFrozen: this.isFrozen,
+    });
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Restores the state captured by {@link createSnapshot}, see {@link restoreState}.
+   *
+   * @returns `true` if the snapshot was restored, otherwise `false`.
+   */
+  restoreSnapshot(snapshot: UnitSnapshot<any>, force = false): boolean {
+    const restoredSnapshot = this.deserializeSnapshot(snapshot);
+    if (!restoredSnapshot) {
+      return false;
+    }
+    const {value, cachedValues, cacheIndex, isFrozen} = restoredSnapshot;
+
+    if (force === true) {
+      this.unfreeze();
+    }
+    // bypass the debounce and middlewares, the snapshot has been through them already
+    if (!this.dispatchValue(value, {force})) {
+      return false;
+    }
+
+    if (this.isValidCache(cachedValues, cacheIndex)) {
+      this.replaceCache(cachedValues, cacheIndex);
+      this.updateValueInPersistentStorage();
+    }
+    if (isFrozen === true) {
+      this.freeze();
+    }
+
+    return true;
+  }
+
   /**
    * @internal please do not use.
    */
   protected abstract isValidValue(value: any): boolean;
 
+  /**
+   * @internal please do not use.
+   *
+   * An additional check for the values that are of the valid type, e.g.: the bounds of a {@link NumUnit},
+   * it can't be bypassed by forcing the dispatch.
+   */
+  protected isWithinBounds(value: T): boolean {
+    return true;
+  }
+
   /**
    * @internal please do not use.
    */
   protected deepCopyMaybe<U>(o: U): U {
-    return this.config.immutable === true ? deepCopy(o) : o;
+    if (this.config.immutable !== true) {
+      return o;
+    }
+    // structurally shared values are frozen instead of being copied, the frozen parts are skipped
+    return this.sharesStructure ? deepFreeze(o, true) : deepCopy(o);
   }
 
   /**
    * @internal please do not use.
    */
   protected checkSerializabilityMaybe(o: any): void {
-    if (Configuration.ENVIRONMENT.checkSerializability === true) {
+    // a custom serializer takes care of the values that JSON can't handle
+    if (
+      Configuration.ENVIRONMENT.checkSerializability === true &&
+      !isFunction(this.config.serialize)
+    ) {
       checkSerializability(o);
     }
   }
@@ -755,14 +1137,16 @@ export abstract class UnitBase<T> extends Base<T> {
    * @internal please do not use.
    */
   protected updateValueAndCache(value: T, options?: DispatchOptions, skipCache = false): void {
-    const {cacheReplace}: DispatchOptions = options || {};
+    this.addRollbackRestorerMaybe();
 
-    if (Configuration.ENVIRONMENT.checkImmutability === true) {
+    if (this.sharesStructure) {
+      deepFreeze(value, true);
+    } else if (Configuration.ENVIRONMENT.checkImmutability === true) {
       deepFreeze(value);
     }
 
     if (!skipCache) {
-      this.updateCache(value, cacheReplace);
+      this.updateCache(value, options);
     }
 
     this._value = value;
@@ -791,13 +1175,31 @@ export abstract class UnitBase<T> extends Base<T> {
     return this.config.distinctDispatchCheck !== true || value !== this.rawValue();
   }
 
+  /**
+   * @internal please do not use.
+   *
+   * The dispatch-checks that can be bypassed by `force = true`, see {@link wouldDispatch}.
+   */
+  private forceableChecks(value: T, force: boolean): boolean {
+    if (force === true) {
+      return true;
+    }
+    if (
+      typeof this.config.customDispatchCheck === 'function' &&
+      !this.config.customDispatchCheck(this.rawValue(), value)
+    ) {
+      return false;
+    }
+    return this.distinctCheck(value);
+  }
+
   /**
    * @internal please do not use.
    */
   private dispatchMiddleware(
     valueOrProducer: DispatchValueProducer<T> | T,
     options?: DispatchOptions
-  ): boolean {
+  ): boolean | undefined {
     return this.dispatchActual(valueOrProducer, options);
   }
 
@@ -807,71 +1209,245 @@ export abstract class UnitBase<T> extends Base<T> {
   private dispatchActual(
     valueOrProducer: DispatchValueProducer<T> | T,
     options?: DispatchOptions
-  ): boolean {
-    const {force}: DispatchOptions = options || {};
-    const value: T =
-      typeof valueOrProducer === 'function'
-        ? (valueOrProducer as DispatchValueProducer<T>)(this.value())
-        : valueOrProducer;
+  ): boolean | undefined {
+    let value: T;
+    if (typeof valueOrProducer !== 'function') {
+      value = valueOrProducer;
+    } else if (this.sharesStructure) {
+      value = produce(this.rawValue(), valueOrProducer as DispatchValueProducer<T>);
+    } else {
+      value = (valueOrProducer as DispatchValueProducer<T>)(this.value());
+    }
 
-    this.checkSerializabilityMaybe(value);
+    if (this.middlewares.length && !this.isDisposed) {
+      return this.runMiddlewares(0, value, this.rawValue(), options);
+    }
+    return this.dispatchValue(value, options);
+  }
 
-    if (this.wouldDispatch(value, force)) {
-      this.updateValueAndCache(this.deepCopyMaybe(value), options); // clone and dispatch
+  /**
+   * @internal please do not use.
+   *
+   * Passes the value through the middlewares starting at the given index,
+   * the last one passes it on to {@link dispatchValue}.
+   */
+  private runMiddlewares(
+    index: number,
+    value: T,
+    previousValue: T,
+    options?: DispatchOptions
+  ): boolean | undefined {
+    if (index >= this.middlewares.length) {
+      return this.dispatchValue(value, options);
+    }
 
+    let nextCalled = false;
+    let result: boolean | undefined;
+    const next = (...args: T[]): boolean | undefined => {
+      if (nextCalled) {
+        return false;
+      }
+      nextCalled = true;
+      const nextValue = args.length ? args[0] : value;
+      return (result = this.runMiddlewares(index + 1, nextValue, previousValue, options));
+    };
+    const reject = () => {
+      if (nextCalled) {
+        return;
+      }
+      nextCalled = true;
       if (this.eventsSubject?.observers.length && !this.isMuted) {
-        this.eventsSubject.next(new EventUnitDispatch(value, options));
+        this.eventsSubject.next(
+          new EventUnitDispatchFail(value, DispatchFailReason.MIDDLEWARE, options)
+        );
       }
-      return true;
-    }
+    };
 
-    if (this.eventsSubject?.observers.length && !this.isMuted) {
-      const failReason: DispatchFailReason =
-        (this.isFrozen && DispatchFailReason.FROZEN_UNIT) ||
-        (this.isValidValue(value) &&
-          (this.distinctCheck(value)
-            ? DispatchFailReason.CUSTOM_DISPATCH_CHECK
-            : DispatchFailReason.DISTINCT_CHECK)) ||
-        DispatchFailReason.INVALID_VALUE;
+    const returned = this.middlewares[index](
+      {unit: this, value, previousValue, options: {...options}},
+      next
+    );
 
-      this.eventsSubject.next(new EventUnitDispatchFail(value, failReason, options));
+    if (nextCalled) {
+      return result;
     }
-
+    if (isFunction((returned as PromiseLike<any>)?.then)) {
+      (returned as PromiseLike<any>).then(reject, reject); // delayed
+      return undefined;
+    }
+    reject();
     return false;
   }
 
   /**
    * @internal please do not use.
    */
-  private shouldDispatchInitialValue(initialValue: T): boolean {
-    // not checking undefined in wouldDispatch to allow undefined values later on (for GenericUnit)
-    return initialValue !== undefined && this.isValidValue(initialValue);
+  private dispatchValue(value: T, options?: DispatchOptions): boolean {
+    this.checkSerializabilityMaybe(value);
+
+    if (this.checkDispatch(value, options)) {
+      this.updateValueAndCache(this.deepCopyMaybe(value), options); // clone and dispatch
+
+      if (this.eventsSubject?.observers.length && !this.isMuted) {
+        this.eventsSubject.next(new EventUnitDispatch(value, options));
+      }
+      return true;
+    }
+    return false;
   }
 
   /**
    * @internal please do not use.
-   */
-  private updateCache(value: T, cacheReplace?: boolean): void {
-    if (cacheReplace === true) {
-      this._cachedValues[this.cacheIndex] = value;
+   *
+   * Applies the same dispatch-checks as {@link wouldDispatch}, validating the value only once, \
+   * and emits {@link EventUnitDispatchFail} with the reason if the value is denied.
+   *
+   * @returns `true` if the value passes the dispatch-checks, otherwise `false`.
+   */
+  protected checkDispatch(value: T, options?: DispatchOptions): boolean {
+    const passesTypeAndBounds =
+      this.isValidValue(value) && !this.isFrozen && this.isWithinBounds(value);
+    const errors = passesTypeAndBounds ? this.validateValue(value) : undefined;
+
+    if (passesTypeAndBounds && !errors && this.forceableChecks(value, options?.force)) {
+      return true;
+    }
+    this.reportDispatchFail(value, options, errors);
+    return false;
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private reportDispatchFail(
+    value: T,
+    options: DispatchOptions | undefined,
+    errors: ValidationError[] | undefined
+  ): void {
+    if (this.isDisposed) {
+      logWarn(`Dispatch ignored, Unit "${this.config.id}" has been disposed`)();
+    }
+    if (this.eventsSubject?.observers.length && !this.isMuted) {
+      const failReason: DispatchFailReason =
+        (this.isDisposed && DispatchFailReason.DISPOSED) ||
+        (this.isFrozen && DispatchFailReason.FROZEN_UNIT) ||
+        (this.isValidValue(value) &&
+          ((!this.isWithinBounds(value) && DispatchFailReason.BOUNDS_CHECK) ||
+            (errors && DispatchFailReason.SCHEMA_VALIDATION) ||
+            (this.distinctCheck(value)
+              ? DispatchFailReason.CUSTOM_DISPATCH_CHECK
+              : DispatchFailReason.DISTINCT_CHECK))) ||
+        DispatchFailReason.INVALID_VALUE;
+
+      this.eventsSubject.next(
+        new EventUnitDispatchFail(
+          value,
+          failReason,
+          options,
+          failReason === DispatchFailReason.SCHEMA_VALIDATION ? errors : undefined
+        )
+      );
+    }
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private shouldDispatchInitialValue(initialValue: T): boolean {
+    // not checking undefined in wouldDispatch to allow undefined values later on (for GenericUnit)
+    return (
+      initialValue !== undefined &&
+      this.isValidValue(initialValue) &&
+      this.isWithinBounds(initialValue) &&
+      !this.validateValue(initialValue)
+    );
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Validates the value produced by a mutation method, e.g. {@link DictUnit.set}, before it's committed, \
+   * if it's invalid, {@link EventUnitDispatchFail} is emitted with {@link DispatchFailReason.SCHEMA_VALIDATION}.
+   *
+   * @returns `true` if the value passes the {@link UnitConfig.validate} check, otherwise `false`.
+   */
+  protected passesValidation(value: T): boolean {
+    const errors = this.validateValue(value);
+    if (errors && this.eventsSubject?.observers.length && !this.isMuted) {
+      this.eventsSubject.next(
+        new EventUnitDispatchFail(value, DispatchFailReason.SCHEMA_VALIDATION, undefined, errors)
+      );
+    }
+    return !errors;
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * @returns The errors returned by {@link UnitConfig.validate}, or `undefined` if the value is valid.
+   */
+  private validateValue(value: T): ValidationError[] | undefined {
+    if (typeof this.config.validate !== 'function') {
+      return;
+    }
+    let errors: ValidationError[] | void;
+    try {
+      errors = this.config.validate(value);
+    } catch (e) {
+      errors = [{path: [], message: String(e?.message ?? e)}];
+    }
+    return Array.isArray(errors) && errors.length ? errors : undefined;
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private updateCache(value: T, options?: DispatchOptions): void {
+    const {cacheReplace, label, metadata}: DispatchOptions = options || {};
+    const entry: CacheEntry = {label, metadata, timestamp: Date.now()};
+
+    if (cacheReplace === true || this.shouldCoalesce(value, entry)) {
+      this.cache.set(this.cacheIndex, value, entry);
     } else {
       if (this.cachedValuesCount === 0 || this.cacheIndex === this.cachedValuesCount - 1) {
-        this._cachedValues.push(value);
+        this.cache.push(value, entry);
         if (this.cachedValuesCount > this.cacheSize) {
-          this._cachedValues.shift();
+          this.cache.shift();
         }
         this._cacheIndex = this.cachedValuesCount - 1;
       } else {
-        this._cachedValues.splice(
-          this.cacheIndex + 1,
-          this.cachedValuesCount - 1 - this.cacheIndex,
-          value
-        );
+        this.cache.splice(this.cacheIndex + 1, this.cachedValuesCount - 1 - this.cacheIndex);
+        this.cache.push(value, entry);
         ++this._cacheIndex;
       }
     }
   }
 
+  /**
+   * @internal please do not use.
+   *
+   * Whether the dispatched value should replace the latest cached value,
+   * see {@link SharedUnitConfig.cacheCoalesce}.
+   */
+  private shouldCoalesce(value: T, entry: CacheEntry): boolean {
+    const {cacheCoalesce} = this.config;
+    const latestEntry = this.cache.entry(this.cacheIndex);
+    if (
+      (!isNumber(cacheCoalesce) && !isFunction(cacheCoalesce)) ||
+      this.cacheIndex === 0 ||
+      this.cacheIndex !== this.cachedValuesCount - 1 ||
+      entry.label !== undefined ||
+      latestEntry.label !== undefined
+    ) {
+      return false;
+    }
+
+    const timeElapsed = entry.timestamp - latestEntry.timestamp;
+    return isFunction(cacheCoalesce)
+      ? cacheCoalesce(this.cache.get(this.cacheIndex), value, timeElapsed) === true
+      : timeElapsed < cacheCoalesce;
+  }
+
   /**
    * @internal please do not use.
    */
@@ -884,26 +1460,575 @@ export abstract class UnitBase<T> extends Base<T> {
     }
   }
 
+  /**
+   * @internal please do not use.
+   *
+   * If a {@link transaction} is in progress, saves the current state,
+   * so that it can be restored if the transaction fails.
+   */
+  private addRollbackRestorerMaybe(): void {
+    if (!needsRollbackRestorer(this)) {
+      return;
+    }
+    const value = this._value;
+    const restoreCache = this.cache.backup();
+    const cacheIndex = this._cacheIndex;
+
+    addRollbackRestorer(this, () => {
+      this._value = value;
+      restoreCache();
+      this._cacheIndex = cacheIndex;
+      this.updateValueInPersistentStorage();
+    });
+  }
+
   /**
    * @internal please do not use.
    */
   private updateValueInPersistentStorage() {
-    if (this.config.persistent === true) {
-      save(this.config.id, this.rawValue(), this.config.storage);
+    if (this.config.persistent !== true || this.isDisposed) {
+      return;
+    }
+    if (!this.isHydrated) {
+      this.changedWhileHydrating = true;
+      return;
+    }
+    // the value came from the storage, no need to write it back
+    if (this.isApplyingSyncedValue) {
+      return;
+    }
+
+    const {persistDebounce, persistThrottle}: UnitConfig<T> = this.config;
+
+    if (isNumber(persistDebounce) && persistDebounce > 0) {
+      this.cancelPendingWrite();
+      this.scheduleWrite(persistDebounce);
+    } else if (isNumber(persistThrottle) && persistThrottle > 0) {
+      // the pending write will pick up the latest value
+      if (this.pendingWriteTimeout == null) {
+        const waitTime = this.lastWrittenAt + persistThrottle - Date.now();
+        if (waitTime > 0) {
+          this.scheduleWrite(waitTime);
+        } else {
+          this.writeToPersistentStorage();
+        }
+      }
+    } else {
+      this.writeToPersistentStorage();
+    }
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private writeToPersistentStorage(): void {
+    const {id, storage, persistFailStrategy}: UnitConfig<T> = this.config;
+    const state = this.createPersistedState();
+    this.lastWrittenAt = Date.now();
+
+    try {
+      const result = this.fallbackStorage
+        ? save(id, state, this.fallbackStorage, this.config)
+        : (persistFailStrategy === 'EVICT_OLDEST' ? saveEvictingOldest : save)(
+            id,
+            state,
+            storage,
+            this.config
+          );
+
+      if (result instanceof Promise) {
+        result.catch(error => this.onWriteFail(error, state));
+      }
+    } catch (error) {
+      this.onWriteFail(error, state);
+    }
+
+    if (isFunction(this.syncTransport?.post)) {
+      this.syncTransport.post(KeyPrefix + id, stringifyPersistedState(state, this.config));
+    }
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private onWriteFail(error: any, state: PersistedState<any>): void {
+    const {id, persistFailStrategy}: UnitConfig<T> = this.config;
+    const strategy =
+      persistFailStrategy === 'EVICT_OLDEST' || persistFailStrategy === 'MEMORY'
+        ? persistFailStrategy
+        : 'SKIP';
+
+    if (strategy === 'MEMORY' && !this.fallbackStorage) {
+      this.fallbackStorage = new MemoryStorage();
+      save(id, state, this.fallbackStorage, this.config);
+    }
+
+    logWarn(
+      `Couldn't persist the value of Unit "${id}", applied the ${strategy} strategy.`,
+      error
+    )();
+
+    if (this.eventsSubject?.observers.length && !this.isMuted) {
+      this.eventsSubject.next(new EventUnitPersistFail(error, strategy));
     }
   }
 
+  /**
+   * @internal please do not use.
+   */
+  private scheduleWrite(waitTime: number): void {
+    this.pendingWriteTimeout = setTimeout(() => this.flushPersistence(), waitTime);
+    addPendingWrite(this);
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private cancelPendingWrite(): void {
+    clearTimeout(this.pendingWriteTimeout);
+    this.pendingWriteTimeout = null;
+    removePendingWrite(this);
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Converts the values of a snapshot back to their original form, using {@link UnitConfig.deserialize} if provided.
+   *
+   * @returns The restored snapshot, or `null` if it couldn't be restored.
+   */
+  private deserializeSnapshot(snapshot: UnitSnapshot<any>): UnitSnapshot<T> | null {
+    const {deserialize}: UnitConfig<T> = this.config;
+    const restore = (value: any): T =>
+      this.deepCopyMaybe(isFunction(deserialize) ? deserialize(value) : value);
+
+    try {
+      return {
+        ...snapshot,
+        value: restore(snapshot.value),
+        cachedValues: Array.isArray(snapshot.cachedValues)
+          ? snapshot.cachedValues.map(restore)
+          : undefined,
+      };
+    } catch (e) {
+      logWarn(`Couldn't deserialize the snapshot of Unit "${this.config.id}"`, e)();
+      return null;
+    }
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Initializes the Unit with the state transferred from the server, if any, see {@link hydrate}.
+   *
+   * @returns `true` if there was a valid state and it got applied, otherwise `false`.
+   */
+  private restoreValueFromHydratedStateMaybe(): boolean {
+    const snapshot = takeHydratedState(this.config.id);
+    if (!snapshot) {
+      return false;
+    }
+
+    const restoredSnapshot = this.deserializeSnapshot(snapshot);
+    if (!restoredSnapshot || !this.shouldDispatchInitialValue(restoredSnapshot.value)) {
+      return false;
+    }
+    const {value, cachedValues, cacheIndex, isFrozen} = restoredSnapshot;
+
+    this.dispatchInitialValue(value);
+    if (this.isValidCache(cachedValues, cacheIndex)) {
+      this.replaceCache(cachedValues, cacheIndex);
+      this.updateValueInPersistentStorage();
+    }
+    this._isFrozen = isFrozen === true;
+
+    return true;
+  }
+
   /**
    * @internal please do not use.
    */
   private restoreValueFromPersistentStorage(initialValue): void {
-    const savedState = retrieve(this.config.id, this.config.storage);
+    const savedState = this.mergePersistedStateMaybe(
+      this.deserializePersistedState(retrieve(this.config.id, this.config.storage, this.config)),
+      this.shouldDispatchInitialValue(initialValue) ? initialValue : this.defaultValue()
+    );
 
-    if (savedState) {
+    if (savedState && this.shouldDispatchInitialValue(savedState.value)) {
       this.dispatchInitialValue(savedState.value);
+      this.restoreCachedValuesMaybe(savedState);
     } else {
       this.checkSerializabilityMaybe(initialValue);
       this.dispatchInitialValue(this.deepCopyMaybe(initialValue));
     }
   }
+
+  /**
+   * @internal please do not use.
+   */
+  private restoreValueFromAsyncStorage(initialValue, storage: AsyncStorageAdapter): void {
+    this.hydratedSubject.next(false);
+
+    this.checkSerializabilityMaybe(initialValue);
+    this.dispatchInitialValue(this.deepCopyMaybe(initialValue));
+    this.changedWhileHydrating = false;
+
+    retrieveAsync<T>(this.config.id, storage, this.config)
+      .catch(() => null)
+      .then(retrievedState => {
+        const savedState = this.mergePersistedStateMaybe(
+          this.deserializePersistedState(retrievedState),
+          this.initialValueRaw()
+        );
+
+        if (
+          savedState &&
+          !this.changedWhileHydrating &&
+          !this.isDisposed &&
+          this.shouldDispatchInitialValue(savedState.value)
+        ) {
+          this._initialValue = savedState.value;
+          this.updateValueAndCache(this.initialValueRaw(), {cacheReplace: true});
+          this.restoreCachedValuesMaybe(savedState);
+        }
+
+        this.changedWhileHydrating = false;
+        this.hydratedSubject.next(true);
+        this.updateValueInPersistentStorage();
+      })
+      .catch(error => {
+        logWarn(`Couldn't restore the persisted value of Unit "${this.config.id}"`, error)();
+        if (!this.hydratedSubject.value) {
+          this.hydratedSubject.next(true);
+        }
+      });
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Creates the state to be saved to the persistent storage.
+   */
+  private createPersistedState(): PersistedState<any> {
+    const {persistenceVersion, persistCache}: UnitConfig<T> = this.config;
+    const state: PersistedState<any> = {
+      value: this.serializeValue(this.pickPersistedPaths(this.rawValue())),
+    };
+
+    if (persistenceVersion !== undefined) {
+      state.version = persistenceVersion;
+    }
+    if (persistCache === true) {
+      state.cachedValues = this.cache
+        .values()
+        .map(cachedValue => this.serializeValue(this.pickPersistedPaths(cachedValue)));
+      state.cacheIndex = this.cacheIndex;
+    }
+
+    return state;
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Picks the parts of the value that should be persisted,
+   * see {@link UnitConfig.persistPaths} and {@link UnitConfig.persistExcludePaths}.
+   */
+  private pickPersistedPaths(value: T): T {
+    const {persistPaths, persistExcludePaths}: UnitConfig<T> = this.config;
+
+    if (!isObject(value)) {
+      return value;
+    }
+
+    let picked = value;
+    if (Array.isArray(persistPaths)) {
+      picked = validPaths(persistPaths).reduce(
+        (reduced, path) =>
+          hasPath(value, path) ? setAtPath(reduced, path, plucker(value, path)) : reduced,
+        (Array.isArray(value) ? [] : {}) as T
+      );
+    }
+    if (Array.isArray(persistExcludePaths)) {
+      picked = validPaths(persistExcludePaths).reduce(deleteAtPath, picked);
+    }
+
+    return picked;
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Merges the partially persisted values over the base value,
+   * if {@link UnitConfig.persistPaths} or {@link UnitConfig.persistExcludePaths} is provided.
+   *
+   * @param savedState The restored state.
+   * @param baseValue The value that provides the parts that weren't persisted.
+   */
+  private mergePersistedStateMaybe(
+    savedState: PersistedState<T> | null,
+    baseValue: T
+  ): PersistedState<T> | null {
+    const {persistPaths, persistExcludePaths}: UnitConfig<T> = this.config;
+
+    if (!savedState || (!Array.isArray(persistPaths) && !Array.isArray(persistExcludePaths))) {
+      return savedState;
+    }
+
+    const merge = (persistedValue: T): T => {
+      if (!isObject(baseValue) || !isObject(persistedValue)) {
+        return persistedValue;
+      }
+
+      let merged = persistedValue;
+      if (Array.isArray(persistPaths)) {
+        merged = validPaths(persistPaths).reduce(
+          (reduced, path) =>
+            hasPath(persistedValue, path)
+              ? setAtPath(reduced, path, plucker(persistedValue, path))
+              : reduced,
+          baseValue
+        );
+      }
+      if (Array.isArray(persistExcludePaths)) {
+        merged = validPaths(persistExcludePaths).reduce(
+          (reduced, path) =>
+            hasPath(baseValue, path)
+              ? setAtPath(reduced, path, plucker(baseValue, path))
+              : deleteAtPath(reduced, path),
+          merged
+        );
+      }
+
+      return this.deepCopyMaybe(merged);
+    };
+
+    return {
+      ...savedState,
+      value: merge(savedState.value),
+      cachedValues: Array.isArray(savedState.cachedValues)
+        ? savedState.cachedValues.map(merge)
+        : undefined,
+    };
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Restores the persisted cached-values and cacheIndex, if {@link UnitConfig.persistCache} is enabled,
+   * it should be called after the persisted value has been restored.
+   */
+  private restoreCachedValuesMaybe(savedState: PersistedState<T>): void {
+    const {cachedValues, cacheIndex} = savedState;
+
+    if (
+      this.config.persistCache !== true ||
+      !this.shouldDispatchInitialValue(savedState.value) ||
+      !this.isValidCache(cachedValues, cacheIndex)
+    ) {
+      return;
+    }
+
+    this.replaceCache(cachedValues, cacheIndex);
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private isValidCache(cachedValues: T[], cacheIndex: number): boolean {
+    return (
+      Array.isArray(cachedValues) &&
+      isNumber(cacheIndex) &&
+      cachedValues.hasOwnProperty(cacheIndex) &&
+      cachedValues.every(cachedValue => this.shouldDispatchInitialValue(cachedValue))
+    );
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Replaces the cached-values and cacheIndex, keeping the current value at the cacheIndex.
+   *
+   * If there are more cached-values than the {@link cacheSize} allows,
+   * the values farthest from the cacheIndex are dropped, preferring the older ones.
+   */
+  private replaceCache(cachedValues: T[], cacheIndex: number): void {
+    const start = Math.max(0, Math.min(cacheIndex, cachedValues.length - this.cacheSize));
+    const restoredCachedValues = cachedValues.slice(start, start + this.cacheSize);
+    const restoredCacheIndex = cacheIndex - start;
+    // keep the current value's reference intact
+    restoredCachedValues[restoredCacheIndex] = this.rawValue();
+
+    const timestamp = Date.now();
+    this.cache.replace(
+      restoredCachedValues,
+      restoredCachedValues.map(() => ({timestamp}))
+    );
+    this._cacheIndex = restoredCacheIndex;
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Converts the value to its serializable form, using {@link UnitConfig.serialize} if provided.
+   */
+  private serializeValue(value: T): any {
+    return isFunction(this.config.serialize) ? this.config.serialize(value) : value;
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Converts the persisted value back to its original form, using {@link UnitConfig.deserialize} if provided,
+   * and then upgrades it if needed, see {@link migratePersistedStateMaybe}.
+   *
+   * @returns The restored state, or `null` if it couldn't be restored.
+   */
+  private deserializePersistedState(
+    savedState: PersistedState<any> | null
+  ): PersistedState<T> | null {
+    const {deserialize}: UnitConfig<T> = this.config;
+
+    if (savedState && isFunction(deserialize)) {
+      try {
+        savedState = {
+          ...savedState,
+          value: deserialize(savedState.value),
+          cachedValues: Array.isArray(savedState.cachedValues)
+            ? savedState.cachedValues.map(cachedValue => deserialize(cachedValue))
+            : undefined,
+        };
+      } catch (e) {
+        logWarn(`Couldn't deserialize the persisted value of Unit "${this.config.id}"`, e)();
+        return null;
+      }
+    }
+
+    return this.migratePersistedStateMaybe(savedState);
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Upgrades the persisted state using {@link UnitConfig.migrate},
+   * if it was persisted with a different {@link UnitConfig.persistenceVersion}.
+   *
+   * @returns The upgraded state, or `null` if the migration failed.
+   */
+  private migratePersistedStateMaybe(
+    savedState: PersistedState<T> | null
+  ): PersistedState<T> | null {
+    const {persistenceVersion, migrate}: UnitConfig<T> = this.config;
+
+    if (
+      !savedState ||
+      persistenceVersion === undefined ||
+      savedState.version === persistenceVersion
+    ) {
+      return savedState;
+    }
+
+    let error;
+    try {
+      if (isFunction(migrate)) {
+        const value = migrate(savedState.value, savedState.version);
+        if (this.shouldDispatchInitialValue(value)) {
+          return {value, version: persistenceVersion};
+        }
+      }
+    } catch (e) {
+      error = e;
+    }
+
+    logWarn(
+      `Couldn't migrate the persisted value of Unit "${this.config.id}"`,
+      `from version ${savedState.version} to ${persistenceVersion}, using the initial value instead.`,
+      ...(error === undefined ? [] : [error])
+    )();
+
+    this._migrationFail = new EventUnitPersistedValueMigrationFail(
+      savedState.value,
+      savedState.version,
+      error
+    );
+    if (this.eventsSubject?.observers.length && !this.isMuted) {
+      this.eventsSubject.next(this._migrationFail);
+    }
+
+    return null;
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private startSyncingAcrossTabs(storage: PersistentStorage): void {
+    const {syncAcrossTabs}: UnitConfig<T> = this.config;
+
+    if (syncAcrossTabs === true) {
+      this.syncTransport = new StorageEventSyncTransport(
+        isAsyncStorage(storage) ? undefined : storage
+      );
+    } else if (isFunction((syncAcrossTabs as PersistenceSyncTransport).listen)) {
+      this.syncTransport = syncAcrossTabs as PersistenceSyncTransport;
+    } else {
+      return;
+    }
+
+    this.stopSyncingAcrossTabs = this.syncTransport.listen((key, value) =>
+      this.applySyncedValue(key, value)
+    );
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Applies a value persisted by another tab, without writing it back to the storage.
+   */
+  private applySyncedValue(key: string, jsonString: string | null): void {
+    // a removed value doesn't affect the Unit's value, see clearPersistedValue
+    if (key !== KeyPrefix + this.config.id || jsonString == null || this.isFrozen) {
+      return;
+    }
+
+    const savedState = this.mergePersistedStateMaybe(
+      this.deserializePersistedState(parsePersistedState(jsonString, this.config)),
+      this.rawValue()
+    );
+
+    if (
+      !savedState ||
+      !this.shouldDispatchInitialValue(savedState.value) ||
+      stringifyPersistedState({value: this.serializeValue(savedState.value)}) ===
+        stringifyPersistedState({value: this.serializeValue(this.rawValue())})
+    ) {
+      return;
+    }
+
+    this.isApplyingSyncedValue = true;
+    try {
+      this.updateValueAndCache(this.deepCopyMaybe(savedState.value));
+    } finally {
+      this.isApplyingSyncedValue = false;
+    }
+
+    if (this.eventsSubject?.observers.length && !this.isMuted) {
+      this.eventsSubject.next(new EventUnitPersistedValueSync(savedState.value));
+    }
+  }
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Filters out the invalid paths, a valid path is a non-empty array of keys/indices.
+ */
+function validPaths(paths: (string | number)[][]): (string | number)[][] {
+  return paths.filter(path => Array.isArray(path) && path.length && path.every(isValidKey));
+}
+
+/**
+ * @internal please do not use.
+ */
+function validMiddlewares<T>(middlewares: DispatchMiddleware<T>[]): DispatchMiddleware<T>[] {
+  return Array.isArray(middlewares) ? middlewares.filter(isFunction) : [];
 }
@@ -50,6 +50,7 @@ export class Action<T> extends Base<T> {
     this.dispatch(this.config.initialValue);
 
     makeNonEnumerable(this);
+    this.registerMaybe();
   }
 
   /**
@@ -90,6 +91,9 @@ export class Action<T> extends Base<T> {
   dispatch(valueProducer: DispatchValueProducer<T>): void;
 
   dispatch(valueOrProducer: DispatchValueProducer<T> | T): void {
+    if (this.isDisposed) {
+      return;
+    }
     this._value =
       typeof valueOrProducer === 'function'
         ? (valueOrProducer as DispatchValueProducer<T>)(this.value())
@@ -110,6 +110,7 @@ export class AsyncSystemBase<
     this.emit();
     this.createRelationshipsAmongMemberUnits();
     makeNonEnumerable(this);
+    this.registerMaybe();
   }
 
   /**
@@ -200,32 +201,40 @@ export class AsyncSystemBase<
    * @internal please do not use.
    */
   private createRelationshipsAmongMemberUnits() {
-    this.queryUnit.future$.subscribe(() => {
-      if (this.relationshipsWorking) {
-        this.executeQueryUnitRelationship();
-      }
-    });
+    this.subscriptions.add(
+      this.queryUnit.future$.subscribe(() => {
+        if (this.relationshipsWorking) {
+          this.executeQueryUnitRelationship();
+        }
+      })
+    );
 
-    this.dataUnit.future$.subscribe(() => {
-      if (this.relationshipsWorking) {
-        this.executeDataUnitRelationship();
-      }
-    });
+    this.subscriptions.add(
+      this.dataUnit.future$.subscribe(() => {
+        if (this.relationshipsWorking) {
+          this.executeDataUnitRelationship();
+        }
+      })
+    );
 
-    this.errorUnit.future$.subscribe(() => {
-      if (this.relationshipsWorking) {
-        this.executeErrorUnitRelationship();
-      }
-    });
+    this.subscriptions.add(
+      this.errorUnit.future$.subscribe(() => {
+        if (this.relationshipsWorking) {
+          this.executeErrorUnitRelationship();
+        }
+      })
+    );
 
-    this.pendingUnit.future$.subscribe(isPending => {
-      if (!this.relationshipsManuallyPaused) {
-        this.toggleQueryUnitFreezeMaybe(isPending);
-      }
-      if (this.relationshipsWorking) {
-        this.emit();
-      }
-    });
+    this.subscriptions.add(
+      this.pendingUnit.future$.subscribe(isPending => {
+        if (!this.relationshipsManuallyPaused) {
+          this.toggleQueryUnitFreezeMaybe(isPending);
+        }
+        if (this.relationshipsWorking) {
+          this.emit();
+        }
+      })
+    );
   }
 
   /**
@@ -95,4 +95,20 @@ export class AsyncSystem<Query, Data, Error> extends AsyncSystemBase<
       ])
     );
   }
+
+  /**
+   * Disposes the AsyncSystem, along with its member Units, see {@link Base.dispose}.
+   *
+   * @triggers {@link EventDispose}
+   * @category Common
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    super.dispose();
+    [this.queryUnit, this.dataUnit, this.errorUnit, this.pendingUnit].forEach(unit =>
+      unit.dispose()
+    );
+  }
 }
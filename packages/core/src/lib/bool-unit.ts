@@ -43,6 +43,7 @@ export class BoolUnit extends UnitBase<boolean> {
     });
 
     makeNonEnumerable(this);
+    this.registerMaybe();
   }
 
   /**
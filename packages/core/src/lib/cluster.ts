@@ -87,6 +87,7 @@ export class Cluster<
 
     makeNonEnumerable(this);
     Object.freeze(this.items);
+    this.registerMaybe();
   }
 
   /**
@@ -172,7 +173,9 @@ export class Cluster<
    */
   private startListeningAndEmitting(): void {
     this.emit();
-    merge(...Object.values(this.items).map(item => item.future$)).subscribe(() => this.emit());
+    this.subscriptions.add(
+      merge(...Object.values(this.items).map(item => item.future$)).subscribe(() => this.emit())
+    );
   }
 
   /**
@@ -0,0 +1,183 @@
+import {merge} from 'rxjs';
+import {Base} from './abstract-base';
+import {UnitBase} from './abstract-unit-base';
+import {Selection} from './selection';
+import {Stream} from './stream';
+import {
+  ComputedUnitConfig,
+  ComputedUnitProjector,
+  ComputedUnitSource,
+  UnitStreamObservableProducer,
+} from '../models';
+import {checkComputedUnitSources} from '../checks/common';
+import {makeNonEnumerable} from '../utils/funcs';
+
+/**
+ * A ComputedUnit is a read-only construct, whose value is derived from the values of other constructs,
+ * i.e. Units, Systems, Actions, Clusters, other ComputedUnits or Selections, by using a projector function.
+ *
+ * The projection is memoized, the projector only gets called again if the value of any of the sources changes, \
+ * and the ComputedUnit only emits if the projected value changes.
+ *
+ * Since it extends {@link Base}, it can be used like any other ActiveJS construct, e.g.: as an item of a {@link Cluster}.
+ *
+ * @example
+ * ```ts
+ * const todos = new ListUnit<Todo>();
+ * const completed = new ComputedUnit([todos], list => list.filter(todo => todo.completed).length);
+ * // or
+ * const remaining = derive(todos, completed, (list, completedCount) => list.length - completedCount);
+ * ```
+ *
+ * @category 4. Utility
+ */
+export class ComputedUnit<T, S extends ComputedUnitSource[] = any[]> extends Base<T> {
+  /**
+   * Configured options.
+   */
+  readonly config: Readonly<ComputedUnitConfig>;
+
+  /**
+   * The constructs the value is derived from.
+   */
+  readonly sources: Readonly<S>;
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly projector: ComputedUnitProjector<S, T>;
+
+  /**
+   * @internal please do not use.
+   */
+  private lastSourceValues: any[];
+
+  /**
+   * @internal please do not use.
+   */
+  private lastProjectedValue: T;
+
+  /**
+   * The value derived from the current values of the {@link sources}.
+   *
+   * Note: It's not a copy, the projected value should not be mutated.
+   *
+   * @category Access Value
+   */
+  value(): T {
+    const sourceValues = this.sources.map(sourceValue);
+
+    if (
+      !this.lastSourceValues ||
+      sourceValues.some((value, i) => value !== this.lastSourceValues[i])
+    ) {
+      this.lastProjectedValue = (this.projector as (...values: any[]) => T)(...sourceValues);
+      this.lastSourceValues = sourceValues;
+    }
+
+    return this.lastProjectedValue;
+  }
+
+  /**
+   * @param sources The constructs to derive the value from.
+   * @param projector A pure function that gets called with the values of the sources, in the same order,
+   * and returns the derived value. \
+   * The values are not copies, they should not be mutated.
+   * @param config Configuration options.
+   */
+  constructor(
+    sources: [...S],
+    projector: ComputedUnitProjector<S, T>,
+    config?: ComputedUnitConfig
+  ) {
+    super({...config});
+
+    checkComputedUnitSources(sources, projector);
+
+    this.sources = Object.freeze([...sources]) as S;
+    this.projector = projector;
+    this.startListeningAndEmitting();
+
+    makeNonEnumerable(this);
+    this.registerMaybe();
+  }
+
+  /**
+   * A helper method that creates a stream by subscribing to the Observable returned by the param `observableProducer` callback.
+   *
+   * Ideally the callback function creates an Observable by applying `Observable.pipe`.
+   *
+   * Just know that you should catch the error in a sub-pipe (ie: do not let it propagate to the main-pipe), otherwise
+   * as usual the stream will stop working, and will not react on any further emissions.
+   *
+   * @param observableProducer A callback function that should return an Observable.
+   *
+   * @category Common
+   */
+  createStream<R>(observableProducer: UnitStreamObservableProducer<this, R>): Stream {
+    const observable = observableProducer(this);
+
+    return new Stream(observable);
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private startListeningAndEmitting(): void {
+    this.emit();
+    this.subscriptions.add(
+      merge(
+        ...this.sources.map(source =>
+          source instanceof Selection ? source.asObservable() : source.future$
+        )
+      ).subscribe(() => this.emitIfChanged())
+    );
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private emitIfChanged(): void {
+    const value = this.value();
+    if (value !== this.emittedValue) {
+      this.emit(value);
+    }
+  }
+}
+
+/**
+ * Creates a {@link ComputedUnit}, whose value is derived from the values of the provided sources.
+ *
+ * @example
+ * ```ts
+ * const remaining = derive(todosUnit, completedUnit, (todos, completed) => todos.length - completed);
+ * ```
+ *
+ * @param sourcesAndProjector The constructs to derive the value from, followed by the projector function,
+ * see {@link ComputedUnit}.
+ * @returns A new ComputedUnit.
+ *
+ * @category 4. Utility
+ */
+export function derive<S extends ComputedUnitSource[], T>(
+  ...sourcesAndProjector: [...S, ComputedUnitProjector<S, T>]
+): ComputedUnit<T, S> {
+  const sources: any[] = [...sourcesAndProjector];
+  const projector = sources.pop();
+
+  return new ComputedUnit<T, S>(sources as S, projector);
+}
+
+/**
+ * @internal please do not use.
+ */
+function sourceValue(source: ComputedUnitSource): any {
+  if (source instanceof Selection || source instanceof UnitBase) {
+    // tslint:disable-next-line:no-string-literal
+    return source['rawValue']();
+  }
+  // the other constructs, e.g. Clusters and Systems, create a new value on every read,
+  // their emitted value only changes when they emit
+  // tslint:disable-next-line:no-string-literal
+  return source['emittedValue'];
+}
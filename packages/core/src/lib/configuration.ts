@@ -1,11 +1,14 @@
 import {
+  AsyncStorageAdapter,
   DictValue,
+  EntityState,
   EnvironmentConfig,
   GlobalActionConfig,
   GlobalAsyncSystemConfig,
   GlobalClusterConfig,
   GlobalConfig,
   GlobalUnitConfig,
+  PersistentStorage,
 } from '../models';
 import {Cluster} from './cluster';
 import {Action} from './action';
@@ -15,7 +18,9 @@ import {StringUnit} from './string-unit';
 import {NumUnit} from './num-unit';
 import {BoolUnit} from './bool-unit';
 import {GenericUnit} from './generic-unit';
+import {EntityUnit} from './entity-unit';
 import {AsyncSystem} from './async-system';
+import {isAsyncStorage, MemoryStorage} from './persistence';
 
 /**
  * @internal please do not use.
@@ -25,6 +30,24 @@ export const UniqueIdsAndLocationIdMap: {[id: string]: string} = {};
  * @internal please do not use.
  */
 const FrozenObj = Object.freeze({});
+/**
+ * @internal please do not use.
+ */
+let FallbackStorage: MemoryStorage;
+
+/**
+ * @internal please do not use.
+ */
+function getDefaultStorage(): Storage {
+  try {
+    if (typeof localStorage !== 'undefined' && localStorage) {
+      return localStorage;
+    }
+  } catch (e) {
+    // accessing localStorage throws if it's disabled, e.g.: in sandboxed iframes
+  }
+  return FallbackStorage || (FallbackStorage = new MemoryStorage());
+}
 
 /**
  * The Global configuration for all ActiveJS constructs, Units, Systems, Action and Cluster.
@@ -43,7 +66,7 @@ export class Configuration {
   /**
    * @internal please do not use.
    */
-  private static _storage: Storage;
+  private static _storage: PersistentStorage;
   /**
    * @internal please do not use.
    */
@@ -84,6 +107,10 @@ export class Configuration {
    * @internal please do not use.
    */
   private static _GENERIC_UNIT: GlobalUnitConfig<any> = FrozenObj;
+  /**
+   * @internal please do not use.
+   */
+  private static _ENTITY_UNIT: GlobalUnitConfig<EntityState<any>> = FrozenObj;
   /**
    * @internal please do not use.
    */
@@ -94,10 +121,26 @@ export class Configuration {
   /**
    * The default Storage API being used for storing the values of persistent Units.
    *
+   * If `localStorage` is not available, e.g.: in Node during server-side rendering,
+   * or if it's disabled by the browser, a {@link MemoryStorage} is used instead.
+   *
+   * If an {@link AsyncStorageAdapter} is configured, it's used instead, see {@link asyncStorage}.
+   *
    * @default `localStorage`
    */
   static get storage(): Readonly<Storage> {
-    return Configuration._storage || localStorage;
+    const storage = Configuration._storage;
+    return storage && !isAsyncStorage(storage) ? storage : getDefaultStorage();
+  }
+
+  /**
+   * The {@link AsyncStorageAdapter} being used for storing the values of persistent Units, if configured.
+   *
+   * @default `undefined`
+   */
+  static get asyncStorage(): Readonly<AsyncStorageAdapter> | undefined {
+    const storage = Configuration._storage;
+    return isAsyncStorage(storage) ? storage : undefined;
   }
 
   /**
@@ -173,6 +216,13 @@ export class Configuration {
     return Configuration._GENERIC_UNIT;
   }
 
+  /**
+   * Configuration options applied to all the EntityUnits. {@link EntityUnit}
+   */
+  static get ENTITY_UNIT(): Readonly<GlobalUnitConfig<EntityState<any>>> {
+    return Configuration._ENTITY_UNIT;
+  }
+
   /**
    * Configuration options applied to all the AsyncSystems. {@link AsyncSystem}
    */
@@ -206,6 +256,7 @@ export class Configuration {
       LIST_UNIT,
       DICT_UNIT,
       GENERIC_UNIT,
+      ENTITY_UNIT,
       ASYNC_SYSTEM,
     }: GlobalConfig = {...config};
 
@@ -220,6 +271,7 @@ export class Configuration {
     Configuration._LIST_UNIT = Object.freeze({...LIST_UNIT});
     Configuration._DICT_UNIT = Object.freeze({...DICT_UNIT});
     Configuration._GENERIC_UNIT = Object.freeze({...GENERIC_UNIT});
+    Configuration._ENTITY_UNIT = Object.freeze({...ENTITY_UNIT});
     Configuration._ASYNC_SYSTEM = Object.freeze({
       ...ASYNC_SYSTEM,
       UNITS: {...ASYNC_SYSTEM?.UNITS},
@@ -0,0 +1,364 @@
+import {Subscription} from 'rxjs';
+import {
+  DevToolsAction,
+  DevToolsBridgeConfig,
+  DevToolsConnection,
+  DevToolsMessage,
+  DevToolsTimelineEntry,
+} from '../models';
+import {deepCopy, isDict, isFunction, isNumber, isValidId} from '../utils/funcs';
+import {Base} from './abstract-base';
+import {UnitBase} from './abstract-unit-base';
+import {Action} from './action';
+import {Registry} from './registry';
+import {batch} from './transaction';
+
+/**
+ * A bridge between ActiveJS and the Redux DevTools, to inspect what's happening inside the app.
+ *
+ * It tracks Units, Systems, Actions and Clusters by their ids,
+ * records every event emitted by them (e.g.: {@link EventUnitDispatch}, {@link EventUnitJump}, {@link EventReplay})
+ * along with the values of all the tracked constructs into a timeline, and sends it to the DevTools. \
+ * The dispatches of Actions are recorded as well, since Actions do not emit events on dispatch.
+ *
+ * Time-travelling to a recorded state, either from the DevTools or using {@link jump},
+ * dispatches the recorded values to the tracked Units, without recording it again.
+ *
+ * It's meant to be used during development only.
+ *
+ * @category DevTools
+ */
+export class DevToolsBridge {
+  /**
+   * Configured options.
+   */
+  readonly config: Readonly<DevToolsBridgeConfig>;
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly connection: DevToolsConnection | undefined;
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly tracked = new Map<string, {instance: Base<any>; subscription: Subscription}>();
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly entries: DevToolsTimelineEntry[] = [];
+
+  /**
+   * @internal please do not use.
+   */
+  private nextEntryId = 0;
+
+  /**
+   * @internal please do not use.
+   */
+  private isTimeTravelling = false;
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly stopListeningToConnection: () => void;
+
+  /**
+   * @internal please do not use.
+   */
+  private registrySubscription: Subscription;
+
+  /**
+   * @param config Configuration options for the bridge.
+   */
+  constructor(config?: DevToolsBridgeConfig) {
+    this.config = Object.freeze({name: 'ActiveJS', autoTrack: true, maxAge: 50, ...config});
+    this.connection = this.config.connection ?? connectToExtension(this.config);
+
+    if (this.config.autoTrack !== false) {
+      this.registrySubscription = Registry.changes$.subscribe(({type, id, instance}) => {
+        if (type === 'REGISTER') {
+          this.track(instance);
+        } else if (this.tracked.get(id)?.instance === instance) {
+          this.untrack(id);
+        }
+      });
+    }
+
+    this.init();
+
+    const unsubscribe = this.connection?.subscribe(message => this.onMessage(message));
+    this.stopListeningToConnection = isFunction(unsubscribe)
+      ? unsubscribe
+      : () => this.connection?.unsubscribe?.();
+  }
+
+  /**
+   * Starts tracking the given Units, Systems, Actions or Clusters. \
+   * If another instance with the same id is being tracked, it gets replaced.
+   *
+   * @param instances The instances to be tracked, they must have an id.
+   *
+   * @category Tracking
+   */
+  track(...instances: Base<any>[]): void {
+    instances.forEach(instance => {
+      const id = instance?.config?.id;
+      if (!isValidId(id)) {
+        throw new TypeError(`Only the instances with an id can be tracked, got ${String(id)}`);
+      }
+      if (this.tracked.get(id)?.instance === instance) {
+        return;
+      }
+      this.untrack(id);
+
+      const subscription = instance.events$.subscribe(event =>
+        this.record({type: `[${id}] ${event?.constructor?.name ?? 'Event'}`, payload: event})
+      );
+      if (instance instanceof Action) {
+        subscription.add(
+          instance.future$.subscribe(value =>
+            this.record({type: `[${id}] ActionDispatch`, payload: value})
+          )
+        );
+      }
+
+      this.tracked.set(id, {instance, subscription});
+    });
+  }
+
+  /**
+   * Stops tracking the instances with the given ids.
+   *
+   * @param ids The ids of the tracked instances.
+   *
+   * @category Tracking
+   */
+  untrack(...ids: string[]): void {
+    ids.forEach(id => {
+      this.tracked.get(id)?.subscription.unsubscribe();
+      this.tracked.delete(id);
+    });
+  }
+
+  /**
+   * The current values of all the tracked instances, mapped by their ids.
+   *
+   * @category Tracking
+   */
+  state(): {[id: string]: any} {
+    const state = {};
+    this.tracked.forEach(({instance}, id) => (state[id] = deepCopy(instance.value())));
+    return state;
+  }
+
+  /**
+   * The recorded timeline, from the oldest to the latest entry, \
+   * bounded by the {@link DevToolsBridgeConfig.maxAge}.
+   *
+   * @category Time Travel
+   */
+  timeline(): DevToolsTimelineEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Time-travels to the state recorded in the timeline entry with the given id,
+   * by dispatching the recorded values to the tracked Units.
+   *
+   * @param entryId The id of the timeline entry, see {@link DevToolsTimelineEntry.id}.
+   * @returns `true` if the entry was found, otherwise `false`.
+   *
+   * @category Time Travel
+   */
+  jump(entryId: number): boolean {
+    const entry = this.entries.find(({id}) => id === entryId);
+    if (!entry) {
+      return false;
+    }
+    this.applyState(entry.state);
+    return true;
+  }
+
+  /**
+   * Stops tracking all the instances, and disconnects from the DevTools.
+   *
+   * @category Tracking
+   */
+  disconnect(): void {
+    this.registrySubscription?.unsubscribe();
+    this.untrack(...this.tracked.keys());
+    this.stopListeningToConnection();
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * Clears the timeline, and starts over with the current state.
+   */
+  private init(): void {
+    const state = this.state();
+    this.entries.splice(0, this.entries.length, {
+      id: this.nextEntryId++,
+      action: {type: '@@INIT'},
+      state,
+      timestamp: Date.now(),
+    });
+    this.connection?.init(state);
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private record(action: DevToolsAction): void {
+    if (this.isTimeTravelling) {
+      return;
+    }
+
+    const {maxAge} = this.config;
+    const state = this.state();
+    this.entries.push({id: this.nextEntryId++, action, state, timestamp: Date.now()});
+    if (isNumber(maxAge) && maxAge > 0 && this.entries.length > maxAge) {
+      this.entries.splice(0, this.entries.length - maxAge);
+    }
+
+    this.connection?.send(action, state);
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private applyState(state: {[id: string]: any}): void {
+    this.isTimeTravelling = true;
+    try {
+      batch(() =>
+        Object.keys(state).forEach(id => {
+          const instance = this.tracked.get(id)?.instance;
+          if (instance instanceof UnitBase) {
+            // bypassing the debounce and the middlewares, to land on the recorded state
+            // tslint:disable-next-line:no-string-literal
+            instance['dispatchValue'](deepCopy(state[id]), {force: true});
+          }
+        })
+      );
+    } finally {
+      this.isTimeTravelling = false;
+    }
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private onMessage(message: DevToolsMessage): void {
+    if (message?.type !== 'DISPATCH') {
+      return;
+    }
+
+    switch (message.payload?.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION': {
+        const state = parseState(message.state);
+        if (state) {
+          this.applyState(state);
+        }
+        break;
+      }
+      case 'RESET':
+        this.applyState(this.entries[0].state);
+        this.init();
+        break;
+      case 'COMMIT':
+        this.init();
+        break;
+    }
+  }
+}
+
+/**
+ * A {@link DevToolsConnection} that keeps everything in memory, instead of connecting to the Redux DevTools. \
+ * It's meant to be used in tests, to inspect what was sent, and to simulate the messages sent by the DevTools.
+ *
+ * @category DevTools
+ */
+export class InMemoryDevToolsConnection implements DevToolsConnection {
+  /**
+   * The last state passed to {@link init}.
+   */
+  initialState: any;
+
+  /**
+   * The actions and states sent since the last {@link init}.
+   */
+  readonly sent: {action: DevToolsAction; state: any}[] = [];
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly listeners = new Set<(message: DevToolsMessage) => void>();
+
+  init(state: any): void {
+    this.initialState = state;
+    this.sent.length = 0;
+  }
+
+  send(action: DevToolsAction, state: any): void {
+    this.sent.push({action, state});
+  }
+
+  subscribe(listener: (message: DevToolsMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  unsubscribe(): void {
+    this.listeners.clear();
+  }
+
+  /**
+   * Simulates a message sent by the DevTools.
+   *
+   * @param message The message.
+   */
+  dispatch(message: DevToolsMessage): void {
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  /**
+   * Simulates jumping to an action in the DevTools, like using the slider.
+   *
+   * @param actionId The index of the action, `0` being the initial state.
+   */
+  jumpToAction(actionId: number): void {
+    const state = actionId === 0 ? this.initialState : this.sent[actionId - 1]?.state;
+    this.dispatch({
+      type: 'DISPATCH',
+      payload: {type: 'JUMP_TO_ACTION', actionId},
+      state: JSON.stringify(state),
+    });
+  }
+}
+
+/**
+ * @internal please do not use.
+ */
+function connectToExtension(config: DevToolsBridgeConfig): DevToolsConnection | undefined {
+  const extension =
+    typeof window !== 'undefined' ? (window as any).__REDUX_DEVTOOLS_EXTENSION__ : undefined;
+
+  return isFunction(extension?.connect)
+    ? extension.connect({name: config.name, maxAge: config.maxAge})
+    : undefined;
+}
+
+/**
+ * @internal please do not use.
+ */
+function parseState(jsonString: string | undefined): {[id: string]: any} | null {
+  try {
+    const state = JSON.parse(jsonString);
+    return isDict(state) ? state : null;
+  } catch (e) {
+    return null;
+  }
+}
@@ -70,6 +70,7 @@ export class DictUnit<
     });
 
     makeNonEnumerable(this);
+    this.registerMaybe();
   }
 
   /**
@@ -106,6 +107,9 @@ export class DictUnit<
 
     const dictShallowCopy = {...this.rawValue()};
     dictShallowCopy[key] = this.deepCopyMaybe(value);
+    if (!this.passesValidation(dictShallowCopy)) {
+      return;
+    }
     this.updateValueAndCache(dictShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -141,6 +145,9 @@ export class DictUnit<
       delete dictShallowCopy[key];
     });
 
+    if (!this.passesValidation(dictShallowCopy)) {
+      return {} as any;
+    }
     this.updateValueAndCache(dictShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -178,6 +185,9 @@ export class DictUnit<
       }
     });
 
+    if (!this.passesValidation(dictShallowCopy)) {
+      return {} as any;
+    }
     this.updateValueAndCache(dictShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -205,9 +215,12 @@ export class DictUnit<
     }
     this.checkSerializabilityMaybe(sources);
 
-    const dictShallowCopy = {...this.rawValue()};
     const newProps = Object.assign({}, ...sources);
-    this.updateValueAndCache(Object.assign(dictShallowCopy, this.deepCopyMaybe(newProps)));
+    const dictShallowCopy = Object.assign({...this.rawValue()}, this.deepCopyMaybe(newProps));
+    if (!this.passesValidation(dictShallowCopy)) {
+      return;
+    }
+    this.updateValueAndCache(dictShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
       this.eventsSubject.next(new EventDictUnitAssign(sources, newProps));
@@ -0,0 +1,346 @@
+import {Observable, Subject} from 'rxjs';
+import {Configuration} from './configuration';
+import {UnitBase} from './abstract-unit-base';
+import {Selection} from './selection';
+import {isDict, isFunction, isObject, isValidKey, makeNonEnumerable} from '../utils/funcs';
+import {
+  EntityId,
+  EntityState,
+  EntityUnitConfig,
+  EntityUnitEvents,
+  EventEntityUnitRemove,
+  EventEntityUnitUpdate,
+  EventEntityUnitUpsert,
+  UnitConfig,
+} from '../models';
+
+/**
+ * EntityUnit is a reactive storage Unit for a collection of entities,
+ * stored in a normalized form, i.e. `{ids: [1, 2], entities: {1: {id: 1}, 2: {id: 2}}}`.
+ *
+ * It only accepts a valid {@link EntityState} as its value,
+ * where every id has exactly one entity, and vice versa.
+ *
+ * The entities can be added, updated, looked up and removed by their ids,
+ * without having to search through a list, e.g.: `todos.update(id, {completed: true})`. \
+ * The id of an entity is determined by {@link EntityUnitConfig.selectId}, by default it's the `id` property.
+ *
+ * Learn more about Units [here](https://docs.activejs.dev/fundamentals/units).
+ *
+ * Just like every other ActiveJS Unit:
+ * - EntityUnit extends {@link UnitBase}
+ * - Which further extends {@link Base} and `Observable`
+ *
+ * @category 1. Units
+ */
+export class EntityUnit<E, Id extends EntityId = EntityId> extends UnitBase<EntityState<E, Id>> {
+  /**
+   * Configured options. \
+   * Combination of global-options {@link GlobalUnitConfig} and the options passed on instantiation.
+   */
+  readonly config: Readonly<EntityUnitConfig<E, Id>>;
+
+  /**
+   * @internal please do not use.
+   */
+  protected readonly eventsSubject: Subject<EntityUnitEvents<E, Id>>;
+  /**
+   * On-demand observable events.
+   */
+  readonly events$: Observable<EntityUnitEvents<E, Id>>;
+
+  /**
+   * The number of entities.
+   */
+  get length(): number {
+    return this.rawValue().ids.length;
+  }
+
+  /**
+   * Indicates whether there are no entities.
+   */
+  get isEmpty(): boolean {
+    return this.length === 0;
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  protected defaultValue(): EntityState<E, Id> {
+    return {ids: [], entities: {}};
+  }
+
+  constructor(config?: EntityUnitConfig<E, Id>) {
+    super({
+      ...(Configuration.ENTITY_UNIT as UnitConfig<EntityState<E, Id>>),
+      ...config,
+    });
+
+    makeNonEnumerable(this);
+    this.registerMaybe();
+  }
+
+  /**
+   * Extends {@link UnitBase.wouldDispatch} and adds additional check for a valid {@link EntityState},
+   * which cannot be bypassed even by using {@link force}.
+   *
+   * @param value The value to be dispatched.
+   * @param force Whether dispatch-checks should be bypassed or not.
+   * @returns A boolean indicating whether the param `value` would pass the dispatch-checks if dispatched.
+   *
+   * @category Common Units
+   */
+  wouldDispatch(value: EntityState<E, Id>, force?: boolean): boolean {
+    return this.isValidValue(value) && super.wouldDispatch(value, force);
+  }
+
+  /**
+   * Adds the entity, or replaces the existing entity with the same id. \
+   * See {@link upsertMany} for more details.
+   *
+   * @param entity The entity to be added or replaced.
+   *
+   * @triggers {@link EventEntityUnitUpsert}
+   * @category Custom EntityUnit
+   */
+  upsert(entity: E): void {
+    this.upsertMany([entity]);
+  }
+
+  /**
+   * Adds the entities, or replaces the existing entities with the same ids. \
+   * Also, dispatches it as new state, without mutating the current {@link value}.
+   *
+   * The new ids are appended to the {@link EntityState.ids},
+   * unless {@link EntityUnitConfig.sortComparer} is provided.
+   *
+   * It only works if the Unit is not frozen, and at least one of the entities is an object with a valid id.
+   *
+   * @param entities The entities to be added or replaced.
+   *
+   * @triggers {@link EventEntityUnitUpsert}
+   * @category Custom EntityUnit
+   */
+  upsertMany(entities: E[]): void {
+    if (this.isFrozen || !Array.isArray(entities)) {
+      return;
+    }
+    entities = entities.filter(entity => isObject(entity) && isValidKey(this.selectId(entity)));
+    if (!entities.length) {
+      return;
+    }
+    this.checkSerializabilityMaybe(entities);
+
+    const state = this.rawValue();
+    const ids = [...state.ids];
+    const entitiesMap = {...state.entities};
+
+    entities.forEach(entity => {
+      const id = this.selectId(entity);
+      if (!hasEntity(entitiesMap, id)) {
+        ids.push(id);
+      }
+      entitiesMap[id] = this.deepCopyMaybe(entity);
+    });
+
+    const newState = {ids: this.sortIdsMaybe(ids, entitiesMap), entities: entitiesMap};
+    if (!this.passesValidation(newState)) {
+      return;
+    }
+    this.updateValueAndCache(newState);
+
+    if (this.eventsSubject?.observers.length && !this.isMuted) {
+      this.eventsSubject.next(new EventEntityUnitUpsert(entities));
+    }
+  }
+
+  /**
+   * Updates the entity with the given id, by shallow merging the changes into it. \
+   * Also, dispatches it as new state, without mutating the current {@link value}.
+   *
+   * It only works if the Unit is not frozen, and the entity exists, and the changes are an object,
+   * and the changes don't change the id of the entity.
+   *
+   * @param id The id of the entity.
+   * @param changes The properties to be changed.
+   *
+   * @triggers {@link EventEntityUnitUpdate}
+   * @category Custom EntityUnit
+   */
+  update(id: Id, changes: Partial<E>): void {
+    if (this.isFrozen || !this.hasId(id) || !isObject(changes)) {
+      return;
+    }
+    this.checkSerializabilityMaybe(changes);
+
+    const state = this.rawValue();
+    const updatedEntity: E = {...state.entities[id], ...this.deepCopyMaybe(changes)};
+    if (String(this.selectId(updatedEntity)) !== String(id)) {
+      return;
+    }
+
+    const entitiesMap = {...state.entities, [id]: updatedEntity};
+    const newState = {ids: this.sortIdsMaybe([...state.ids], entitiesMap), entities: entitiesMap};
+    if (!this.passesValidation(newState)) {
+      return;
+    }
+    this.updateValueAndCache(newState);
+
+    if (this.eventsSubject?.observers.length && !this.isMuted) {
+      this.eventsSubject.next(new EventEntityUnitUpdate(id, changes));
+    }
+  }
+
+  /**
+   * Removes the entities with the given ids. \
+   * Also, dispatches it as new state, without mutating the current {@link value}.
+   *
+   * It only works if the Unit is not frozen, and at least one of the entities exists.
+   *
+   * @param ids The ids of the entities to be removed.
+   * @returns The removed entities, or an empty `array`.
+   *
+   * @triggers {@link EventEntityUnitRemove}
+   * @category Custom EntityUnit
+   */
+  removeById(...ids: Id[]): E[] {
+    const idsToRemove = new Set(ids.filter(id => this.hasId(id)).map(String));
+    if (this.isFrozen || !idsToRemove.size) {
+      return [];
+    }
+
+    const state = this.rawValue();
+    const entitiesMap = {...state.entities};
+    const removedEntities: E[] = [];
+
+    idsToRemove.forEach(id => {
+      removedEntities.push(entitiesMap[id]);
+      delete entitiesMap[id];
+    });
+
+    const newState = {
+      ids: state.ids.filter(id => !idsToRemove.has(String(id))),
+      entities: entitiesMap,
+    };
+    if (!this.passesValidation(newState)) {
+      return [];
+    }
+    this.updateValueAndCache(newState);
+
+    if (this.eventsSubject?.observers.length && !this.isMuted) {
+      this.eventsSubject.next(new EventEntityUnitRemove(removedEntities));
+    }
+    return this.deepCopyMaybe(removedEntities);
+  }
+
+  /**
+   * Returns the entity with the given id.
+   *
+   * @param id The id of the entity.
+   * @returns The entity, or `undefined` if it doesn't exist.
+   *
+   * @category Custom EntityUnit
+   */
+  getById(id: Id): E | undefined {
+    return this.hasId(id) ? this.deepCopyMaybe(this.rawValue().entities[id]) : undefined;
+  }
+
+  /**
+   * Returns whether an entity with the given id exists.
+   *
+   * @param id The id of the entity.
+   *
+   * @category Custom EntityUnit
+   */
+  hasId(id: Id): boolean {
+    return isValidKey(id) && hasEntity(this.rawValue().entities, id);
+  }
+
+  /**
+   * Returns the ids of all the entities, in order.
+   *
+   * @category Custom EntityUnit
+   */
+  ids(): Id[] {
+    return [...this.rawValue().ids];
+  }
+
+  /**
+   * Returns all the entities, in the order of their ids.
+   *
+   * @category Custom EntityUnit
+   */
+  all(): E[] {
+    const {ids, entities} = this.rawValue();
+    return this.deepCopyMaybe(ids.map(id => entities[id]));
+  }
+
+  /**
+   * Returns all the entities, sorted by the given compare function,
+   * without changing the order of the {@link EntityState.ids}.
+   *
+   * @param compareFn A function that works the same as the compare function of `Array.prototype.sort`.
+   *
+   * @category Custom EntityUnit
+   */
+  sorted(compareFn: (a: E, b: E) => number): E[] {
+    const {ids, entities} = this.rawValue();
+    return this.deepCopyMaybe(ids.map(id => entities[id]).sort(compareFn));
+  }
+
+  /**
+   * Creates a {@link Selection} of the entity with the given id,
+   * to observe and access only that entity.
+   *
+   * @param id The id of the entity.
+   *
+   * @category Custom EntityUnit
+   */
+  select(id: Id): Selection<E, this> {
+    return new Selection(this, ['entities', id]);
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  protected isValidValue(value: any): boolean {
+    if (!isDict(value)) {
+      return false;
+    }
+    const {ids, entities} = value as EntityState<E, Id>;
+
+    return (
+      Array.isArray(ids) &&
+      isDict(entities) &&
+      ids.every(id => isValidKey(id) && hasEntity(entities, id)) &&
+      new Set(ids.map(String)).size === ids.length &&
+      Object.keys(entities).length === ids.length
+    );
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private selectId(entity: E): Id {
+    return isFunction(this.config.selectId)
+      ? this.config.selectId(entity)
+      : (entity as {id?: Id})?.id;
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private sortIdsMaybe(ids: Id[], entities: {[id: string]: E}): Id[] {
+    if (isFunction(this.config.sortComparer)) {
+      ids.sort((a, b) => this.config.sortComparer(entities[a], entities[b]));
+    }
+    return ids;
+  }
+}
+
+/**
+ * @internal please do not use.
+ */
+function hasEntity(entities: {[id: string]: any}, id: EntityId): boolean {
+  return Object.prototype.hasOwnProperty.call(entities, id);
+}
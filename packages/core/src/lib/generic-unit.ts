@@ -30,6 +30,7 @@ export class GenericUnit<
     });
 
     makeNonEnumerable(this);
+    this.registerMaybe();
   }
 
   /**
@@ -46,8 +47,8 @@ export class GenericUnit<
     }
     const lastNonNilValueIndex =
       direction === 'BACK'
-        ? findIndexBackwards(this._cachedValues, v => v != null, this.cacheIndex - 1)
-        : findIndex(this._cachedValues, v => v != null, this.cacheIndex + 1);
+        ? findIndexBackwards(this.cache.values(), v => v != null, this.cacheIndex - 1)
+        : findIndex(this.cache.values(), v => v != null, this.cacheIndex + 1);
     if (lastNonNilValueIndex === -1) {
       return false;
     }
@@ -90,6 +90,7 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
     });
 
     makeNonEnumerable(this);
+    this.registerMaybe();
   }
 
   /**
@@ -131,6 +132,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
 
     const listShallowCopy = [...this.rawValue()];
     listShallowCopy[normalizeIndex(index, this.length)] = this.deepCopyMaybe(item);
+    if (!this.passesValidation(listShallowCopy)) {
+      return;
+    }
     this.updateValueAndCache(listShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -207,6 +211,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
     indices.forEach(index => {
       removedItems.push(...this.deepCopyMaybe(listShallowCopy.splice(index, 1)));
     });
+    if (!this.passesValidation(listShallowCopy)) {
+      return [];
+    }
     this.updateValueAndCache(listShallowCopy);
     removedItems.reverse();
 
@@ -278,6 +285,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
       deletedItems.push(this.deepCopyMaybe(listShallowCopy[index]));
       delete listShallowCopy[index];
     });
+    if (!this.passesValidation(listShallowCopy)) {
+      return [];
+    }
     this.updateValueAndCache(listShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -435,6 +445,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
 
     const listShallowCopy = [...this.rawValue()];
     const newLength = listShallowCopy.push(...this.deepCopyMaybe(items));
+    if (!this.passesValidation(listShallowCopy)) {
+      return this.length;
+    }
     this.updateValueAndCache(listShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -460,6 +473,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
     }
     const listShallowCopy = [...this.rawValue()];
     const poppedItem = this.deepCopyMaybe(listShallowCopy.pop());
+    if (!this.passesValidation(listShallowCopy)) {
+      return;
+    }
     this.updateValueAndCache(listShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -485,6 +501,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
     }
     const listShallowCopy = [...this.rawValue()];
     const shiftedItem = this.deepCopyMaybe(listShallowCopy.shift());
+    if (!this.passesValidation(listShallowCopy)) {
+      return;
+    }
     this.updateValueAndCache(listShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -513,6 +532,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
 
     const listShallowCopy = [...this.rawValue()];
     const newLength = listShallowCopy.unshift(...this.deepCopyMaybe(items));
+    if (!this.passesValidation(listShallowCopy)) {
+      return this.length;
+    }
     this.updateValueAndCache(listShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -549,6 +571,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
     const removedItems = this.deepCopyMaybe(
       listShallowCopy.splice(start, deleteCount, ...items.map(item => this.deepCopyMaybe(item)))
     );
+    if (!this.passesValidation(listShallowCopy)) {
+      return [];
+    }
     this.updateValueAndCache(listShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -581,6 +606,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
 
     const listShallowCopy = [...this.rawValue()];
     listShallowCopy.fill(this.deepCopyMaybe(item), start, end);
+    if (!this.passesValidation(listShallowCopy)) {
+      return;
+    }
     this.updateValueAndCache(listShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -611,6 +639,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
     }
     const listShallowCopy = [...this.rawValue()];
     listShallowCopy.copyWithin(target, start, end);
+    if (!this.passesValidation(listShallowCopy)) {
+      return;
+    }
     this.updateValueAndCache(listShallowCopy);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -634,6 +665,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
       return;
     }
     const listShallowCopyReversed = [...this.rawValue()].reverse();
+    if (!this.passesValidation(listShallowCopyReversed)) {
+      return;
+    }
     this.updateValueAndCache(listShallowCopyReversed);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
@@ -662,6 +696,9 @@ export class ListUnit<Item> extends NonPrimitiveUnitBase<Item[]> {
       typeof compareFn === 'function'
         ? [...this.value()].sort(compareFn)
         : [...this.rawValue()].sort();
+    if (!this.passesValidation(listShallowCopySorted)) {
+      return;
+    }
     this.updateValueAndCache(listShallowCopySorted);
 
     if (this.eventsSubject?.observers.length && !this.isMuted) {
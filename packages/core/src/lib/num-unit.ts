@@ -1,5 +1,12 @@
-import {Observable} from 'rxjs';
-import {UnitConfig} from '../models';
+import {Observable, Subject} from 'rxjs';
+import {
+  EventNumUnitClamp,
+  EventNumUnitDecrement,
+  EventNumUnitIncrement,
+  EventNumUnitMultiply,
+  NumUnitConfig,
+  NumUnitEvents,
+} from '../models';
 import {isFunction, isNumber, makeNonEnumerable} from '../utils/funcs';
 import {Configuration} from './configuration';
 import {UnitBase} from './abstract-unit-base';
@@ -18,6 +25,10 @@ export interface NumUnit extends Number {}
  * in the environment/browser its running, including polyfills.
  * e.g.: `toFixed`, `toPrecision`, etc.
  *
+ * It also has arithmetic methods like {@link increment} and {@link multiply}, \
+ * and the value can be bounded using the {@link NumUnitConfig.min}, {@link NumUnitConfig.max},
+ * {@link NumUnitConfig.step} and {@link NumUnitConfig.precision} options.
+ *
  * Learn more about Units [here](https://docs.activejs.dev/fundamentals/units). \
  * Learn more about NumUnit [here](https://docs.activejs.dev/fundamentals/units/numunit).
  *
@@ -28,6 +39,21 @@ export interface NumUnit extends Number {}
  * @category 1. Units
  */
 export class NumUnit extends UnitBase<number> {
+  /**
+   * Configured options. \
+   * Combination of global-options {@link GlobalUnitConfig} and the options passed on instantiation.
+   */
+  readonly config: Readonly<NumUnitConfig>;
+
+  /**
+   * @internal please do not use.
+   */
+  protected readonly eventsSubject: Subject<NumUnitEvents>;
+  /**
+   * On-demand observable events.
+   */
+  readonly events$: Observable<NumUnitEvents>;
+
   /**
    * Current value of the Unit.
    * @default `0` (number zero)
@@ -42,16 +68,29 @@ export class NumUnit extends UnitBase<number> {
    * @internal please do not use.
    */
   protected defaultValue(): number {
-    return 0;
+    // the nearest value to 0 that satisfies the bounds
+    const {min, max, step} = this.bounds();
+    const value = Math.min(Math.max(0, min), max);
+    if (step === undefined) {
+      return this.roundToPrecision(value);
+    }
+
+    const start = isFinite(min) ? min : 0;
+    let steps = Math.round((value - start) / step);
+    if (start + steps * step > max) {
+      steps = Math.floor((value - start) / step);
+    }
+    return this.roundToPrecision(start + steps * step);
   }
 
-  constructor(config?: UnitConfig<number>) {
+  constructor(config?: NumUnitConfig) {
     super({
       ...Configuration.NUM_UNIT,
       ...config,
     });
 
     makeNonEnumerable(this);
+    this.registerMaybe();
   }
 
   /**
@@ -68,6 +107,83 @@ export class NumUnit extends UnitBase<number> {
     return this.isValidValue(value) && super.wouldDispatch(value, force);
   }
 
+  /**
+   * Adds the given amount to the value, and dispatches the result. \
+   * The result is rounded to the {@link NumUnitConfig.precision}, if provided.
+   *
+   * It only works if the result passes the dispatch-checks, see {@link wouldDispatch}, \
+   * otherwise {@link EventUnitDispatchFail} is emitted.
+   *
+   * @param by The amount to add, {@link NumUnitConfig.step} or `1` by default.
+   * @returns `true` if the result got dispatched, otherwise `false`.
+   *
+   * @triggers {@link EventNumUnitIncrement}
+   * @category Custom NumUnit
+   */
+  increment(by: number = this.bounds().step ?? 1): boolean {
+    return isNumber(by) && this.update(this.rawValue() + by, new EventNumUnitIncrement(by));
+  }
+
+  /**
+   * Subtracts the given amount from the value, and dispatches the result. \
+   * The result is rounded to the {@link NumUnitConfig.precision}, if provided.
+   *
+   * It only works if the result passes the dispatch-checks, see {@link wouldDispatch}, \
+   * otherwise {@link EventUnitDispatchFail} is emitted.
+   *
+   * @param by The amount to subtract, {@link NumUnitConfig.step} or `1` by default.
+   * @returns `true` if the result got dispatched, otherwise `false`.
+   *
+   * @triggers {@link EventNumUnitDecrement}
+   * @category Custom NumUnit
+   */
+  decrement(by: number = this.bounds().step ?? 1): boolean {
+    return isNumber(by) && this.update(this.rawValue() - by, new EventNumUnitDecrement(by));
+  }
+
+  /**
+   * Multiplies the value by the given number, and dispatches the result. \
+   * The result is rounded to the {@link NumUnitConfig.precision}, if provided.
+   *
+   * It only works if the result passes the dispatch-checks, see {@link wouldDispatch}, \
+   * otherwise {@link EventUnitDispatchFail} is emitted.
+   *
+   * @param by The number to multiply by.
+   * @returns `true` if the result got dispatched, otherwise `false`.
+   *
+   * @triggers {@link EventNumUnitMultiply}
+   * @category Custom NumUnit
+   */
+  multiply(by: number): boolean {
+    return isNumber(by) && this.update(this.rawValue() * by, new EventNumUnitMultiply(by));
+  }
+
+  /**
+   * Restricts the value to the given range, and dispatches the result,
+   * e.g.: `5` clamped to `0` and `3` becomes `3`.
+   *
+   * It only works if the range is valid, and the result passes the dispatch-checks, see {@link wouldDispatch}, \
+   * otherwise {@link EventUnitDispatchFail} is emitted.
+   *
+   * @param min The lower bound, the value is not bounded from below if it's not provided.
+   * @param max The upper bound, the value is not bounded from above if it's not provided.
+   * @returns `true` if the result got dispatched, otherwise `false`.
+   *
+   * @triggers {@link EventNumUnitClamp}
+   * @category Custom NumUnit
+   */
+  clamp(min?: number, max?: number): boolean {
+    const lower = isNumber(min) ? min : -Infinity;
+    const upper = isNumber(max) ? max : Infinity;
+    if (lower > upper) {
+      return false;
+    }
+    return this.update(
+      Math.min(Math.max(this.rawValue(), lower), upper),
+      new EventNumUnitClamp(min, max)
+    );
+  }
+
   /**
    * @internal please do not use.
    */
@@ -75,6 +191,70 @@ export class NumUnit extends UnitBase<number> {
     return isNumber(value);
   }
 
+  /**
+   * @internal please do not use.
+   */
+  protected isWithinBounds(value: number): boolean {
+    const {min, max, step, precision} = this.bounds();
+    if (value < min || value > max) {
+      return false;
+    }
+    // a bounded value has to be finite, e.g.: Infinity is not below the max if only the min is set
+    const isBounded =
+      isFinite(min) || isFinite(max) || step !== undefined || precision !== undefined;
+    if (isBounded && !isFinite(value)) {
+      return false;
+    }
+    if (step !== undefined) {
+      const steps = (value - (isFinite(min) ? min : 0)) / step;
+      // tolerate the floating point errors, e.g.: 0.3 / 0.1 = 2.9999999999999996
+      if (!isFinite(steps) || Math.abs(steps - Math.round(steps)) > 1e-9) {
+        return false;
+      }
+    }
+    return precision === undefined || this.roundToPrecision(value) === value;
+  }
+
+  /**
+   * @internal please do not use.
+   *
+   * The configured bounds, the invalid ones are ignored.
+   */
+  private bounds(): {min: number; max: number; step?: number; precision?: number} {
+    const {min, max, step, precision} = this.config;
+    return {
+      min: isNumber(min) ? min : -Infinity,
+      max: isNumber(max) ? max : Infinity,
+      step: isNumber(step) && step > 0 && isFinite(step) ? step : undefined,
+      precision:
+        Number.isInteger(precision) && precision >= 0 && precision <= 100 ? precision : undefined,
+    };
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private roundToPrecision(value: number): number {
+    const {precision} = this.bounds();
+    return precision === undefined || !isFinite(value) ? value : Number(value.toFixed(precision));
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private update(value: number, event: NumUnitEvents): boolean {
+    value = this.roundToPrecision(value);
+    if (!this.checkDispatch(value)) {
+      return false;
+    }
+    this.updateValueAndCache(value);
+
+    if (this.eventsSubject?.observers.length && !this.isMuted) {
+      this.eventsSubject.next(event);
+    }
+    return true;
+  }
+
   /**
    * @deprecated
    * @ignore
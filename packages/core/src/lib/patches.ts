@@ -0,0 +1,156 @@
+import {CachePatches, Patch} from '../models';
+import {hasOwn, isDict} from '../utils/funcs';
+
+/**
+ * Creates JSON-Patch style patches between two values, \
+ * the `forward` patches convert the `from` value to the `to` value, and the `inverse` patches convert it back.
+ *
+ * Plain objects and arrays are compared recursively, everything else is compared by reference. \
+ * Items added to or removed from an array are detected by comparing the items at both the ends by reference,
+ * e.g.: adding an item at the beginning of a list creates a single `add` patch.
+ *
+ * @example
+ * ```typescript
+ * createPatches({a: 1, b: [1]}, {a: 2, b: [1, 2]});
+ * // {
+ * //   forward: [{op: 'replace', path: ['a'], value: 2}, {op: 'add', path: ['b', 1], value: 2}],
+ * //   inverse: [{op: 'remove', path: ['b', 1]}, {op: 'replace', path: ['a'], value: 1}]
+ * // }
+ * ```
+ *
+ * @param from The old value.
+ * @param to The new value.
+ * @returns The forward and inverse patches, both are empty if the values are the same.
+ *
+ * @category Global
+ */
+export function createPatches<T>(from: T, to: T): CachePatches {
+  const forward: Patch[] = [];
+  const inverse: Patch[] = [];
+  diff(from, to, [], forward, inverse);
+
+  // the inverse patches are applied in the reverse order, to undo the forward patches one by one
+  return {forward, inverse: inverse.reverse()};
+}
+
+/**
+ * Applies the patches to the value, in order, without mutating the value. \
+ * Only the objects and arrays along the paths get shallow copied, the rest is shared by reference.
+ *
+ * On arrays, `add` inserts the item at the index, and `remove` removes the item at the index,
+ * shifting the items after it, same as JSON-Patch.
+ *
+ * @param value The value to apply the patches to.
+ * @param patches The patches created by {@link createPatches}.
+ * @returns The patched value.
+ *
+ * @category Global
+ */
+export function applyPatches<T>(value: T, patches: Patch[]): T {
+  return patches.reduce((patchedValue, patch) => applyPatch(patchedValue, patch, 0), value);
+}
+
+/**
+ * @internal please do not use.
+ */
+function diff(
+  from: any,
+  to: any,
+  path: (string | number)[],
+  forward: Patch[],
+  inverse: Patch[]
+): void {
+  if (from === to) {
+    return;
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    diffArrays(from, to, path, forward, inverse);
+  } else if (isDict(from) && isDict(to)) {
+    Object.keys(from).forEach(key => {
+      if (!hasOwn(to, key)) {
+        forward.push({op: 'remove', path: [...path, key]});
+        inverse.push({op: 'add', path: [...path, key], value: from[key]});
+      }
+    });
+    Object.keys(to).forEach(key => {
+      if (hasOwn(from, key)) {
+        diff(from[key], to[key], [...path, key], forward, inverse);
+      } else {
+        forward.push({op: 'add', path: [...path, key], value: to[key]});
+        inverse.push({op: 'remove', path: [...path, key]});
+      }
+    });
+  } else {
+    forward.push({op: 'replace', path, value: to});
+    inverse.push({op: 'replace', path, value: from});
+  }
+}
+
+/**
+ * @internal please do not use.
+ */
+function diffArrays(
+  from: any[],
+  to: any[],
+  path: (string | number)[],
+  forward: Patch[],
+  inverse: Patch[]
+): void {
+  const minLength = Math.min(from.length, to.length);
+  let start = 0;
+  let end = 0;
+  // skip the unchanged items at both the ends, so that the items in the middle can be added or removed
+  if (from.length !== to.length) {
+    while (start < minLength && from[start] === to[start]) {
+      ++start;
+    }
+    while (end < minLength - start && from[from.length - 1 - end] === to[to.length - 1 - end]) {
+      ++end;
+    }
+  }
+  const fromMiddleLength = from.length - start - end;
+  const toMiddleLength = to.length - start - end;
+  const commonLength = Math.min(fromMiddleLength, toMiddleLength);
+
+  for (let i = start; i < start + commonLength; i++) {
+    diff(from[i], to[i], [...path, i], forward, inverse);
+  }
+  // remove from the back, so that the indices of the remaining items don't shift
+  for (let i = start + fromMiddleLength - 1; i >= start + commonLength; i--) {
+    forward.push({op: 'remove', path: [...path, i]});
+    inverse.push({op: 'add', path: [...path, i], value: from[i]});
+  }
+  for (let i = start + commonLength; i < start + toMiddleLength; i++) {
+    forward.push({op: 'add', path: [...path, i], value: to[i]});
+    inverse.push({op: 'remove', path: [...path, i]});
+  }
+}
+
+/**
+ * @internal please do not use.
+ */
+function applyPatch(value: any, patch: Patch, depth: number): any {
+  const {op, path} = patch;
+  if (depth === path.length) {
+    return op === 'remove' ? undefined : patch.value;
+  }
+
+  const key = path[depth];
+  const copy = Array.isArray(value) ? [...value] : {...value};
+
+  if (depth < path.length - 1) {
+    copy[key] = applyPatch(copy[key], patch, depth + 1);
+  } else if (Array.isArray(copy) && op !== 'replace') {
+    if (op === 'add') {
+      copy.splice(key as number, 0, patch.value);
+    } else {
+      copy.splice(key as number, 1);
+    }
+  } else if (op === 'remove') {
+    delete copy[key];
+  } else {
+    copy[key] = patch.value;
+  }
+  return copy;
+}
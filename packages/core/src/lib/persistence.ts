@@ -1,4 +1,7 @@
 import {Configuration} from './configuration';
+import {AsyncStorageAdapter, PersistenceSyncTransport, PersistentStorage} from '../models';
+import {isFunction, NOOP} from '../utils/funcs';
+import {UnitBase} from './abstract-unit-base';
 
 /**
  * @internal
@@ -8,6 +11,42 @@ import {Configuration} from './configuration';
  */
 export const KeyPrefix = '_AJS_UNIT_';
 
+/**
+ * @internal please do not use.
+ *
+ * The shape in which a value is saved to the persistent storage.
+ */
+export interface PersistedState<T> {
+  // the value is wrapped to later easily determine whether any value has been
+  // saved to storage or not.
+  // eg: If storage.get('item') is null, it can mean many things,
+  // but {value: null} can only mean that the value is null.
+  value: T;
+  /**
+   * The {@link UnitConfig.persistenceVersion} at the time of saving, if any.
+   */
+  version?: number;
+  /**
+   * The cached values, if {@link SharedUnitConfig.persistCache} is enabled.
+   */
+  cachedValues?: T[];
+  /**
+   * The {@link UnitBase.cacheIndex}, if {@link SharedUnitConfig.persistCache} is enabled.
+   */
+  cacheIndex?: number;
+}
+
+/**
+ * @internal please do not use.
+ *
+ * The hooks to transform the JSON string before it's written to the storage, and back after it's read,
+ * see {@link SharedUnitConfig.encode} and {@link SharedUnitConfig.decode}.
+ */
+export interface PersistenceCodec {
+  encode?: (jsonString: string) => string;
+  decode?: (encodedString: string) => string;
+}
+
 /**
  * To clear persisted values of persistent Units from storage.
  *
@@ -16,46 +55,362 @@ export const KeyPrefix = '_AJS_UNIT_';
  * See {@link https://docs.activejs.dev/guides/persistence} for more details.
  *
  * @param storage The Storage from where the Units' persisted values need to be removed. \
- * {@link Configuration.storage} is used as storage by default. \
+ * {@link Configuration.asyncStorage} or {@link Configuration.storage} is used as storage by default. \
  * You can pass a reference to whichever storage you want to clean up.
+ * @returns A Promise if the storage is an {@link AsyncStorageAdapter}, that resolves once all the values are removed.
  * @category Global
  */
-export function clearPersistentStorage(storage: Storage = Configuration.storage): void {
-  Object.keys(storage).forEach(key => {
+export function clearPersistentStorage(
+  storage: PersistentStorage = defaultStorage()
+): void | Promise<void> {
+  if (isAsyncStorage(storage)) {
+    return storage
+      .keys()
+      .then(keys =>
+        Promise.all(keys.filter(key => key.startsWith(KeyPrefix)).map(key => storage.remove(key)))
+      )
+      .then(() => undefined);
+  }
+
+  getStorageKeys(storage).forEach(key => {
     if (key.startsWith(KeyPrefix)) {
       storage.removeItem(key);
     }
   });
 }
 
+/**
+ * Immediately writes the pending values of all the persistent Units,
+ * whose writes are being delayed by {@link SharedUnitConfig.persistDebounce} or {@link SharedUnitConfig.persistThrottle}.
+ *
+ * In browsers, it's automatically called when the page is being unloaded, i.e. on `pagehide` and `beforeunload` events.
+ *
+ * See {@link UnitBase.flushPersistence} to flush a specific Unit.
+ *
+ * @category Global
+ */
+export function flushPersistentStorage(): void {
+  UnitsWithPendingWrites.forEach(unit => unit.flushPersistence());
+}
+
+/**
+ * @internal please do not use.
+ */
+const UnitsWithPendingWrites = new Set<UnitBase<any>>();
+
+/**
+ * @internal please do not use.
+ */
+let isListeningToPageHide = false;
+
+/**
+ * @internal please do not use.
+ */
+export function addPendingWrite(unit: UnitBase<any>): void {
+  UnitsWithPendingWrites.add(unit);
+
+  if (
+    !isListeningToPageHide &&
+    typeof window !== 'undefined' &&
+    isFunction(window.addEventListener)
+  ) {
+    isListeningToPageHide = true;
+    window.addEventListener('pagehide', flushPersistentStorage);
+    window.addEventListener('beforeunload', flushPersistentStorage);
+  }
+}
+
+/**
+ * @internal please do not use.
+ */
+export function removePendingWrite(unit: UnitBase<any>): void {
+  UnitsWithPendingWrites.delete(unit);
+}
+
+/**
+ * @internal please do not use.
+ *
+ * The storage used by the persistent Units that don't have their own {@link UnitConfig.storage}.
+ */
+export function defaultStorage(): PersistentStorage {
+  return Configuration.asyncStorage || Configuration.storage;
+}
+
+/**
+ * @internal please do not use.
+ */
+export function isAsyncStorage(storage: PersistentStorage): storage is AsyncStorageAdapter {
+  return (
+    storage != null &&
+    isFunction((storage as AsyncStorageAdapter).get) &&
+    isFunction((storage as AsyncStorageAdapter).set) &&
+    isFunction((storage as AsyncStorageAdapter).remove) &&
+    isFunction((storage as AsyncStorageAdapter).keys) &&
+    !isFunction((storage as Storage).getItem)
+  );
+}
+
+/**
+ * @internal please do not use.
+ */
+export function save<T>(
+  key: string,
+  state: PersistedState<T>,
+  storage: PersistentStorage = defaultStorage(),
+  codec?: PersistenceCodec
+): void | Promise<void> {
+  return write(key, stringifyPersistedState(state, codec), storage);
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Same as {@link save}, but if the write fails because the storage quota has been exceeded,
+ * it removes the persisted values of other Units one by one, starting with the least recently written one,
+ * and retries, until the write succeeds, or there's nothing left to remove. \
+ * Other failures, e.g.: a throwing `encode`, are re-thrown without removing anything.
+ */
+export function saveEvictingOldest<T>(
+  key: string,
+  state: PersistedState<T>,
+  storage: PersistentStorage = defaultStorage(),
+  codec?: PersistenceCodec
+): void | Promise<void> {
+  return writeEvictingOldest(key, stringifyPersistedState(state, codec), storage);
+}
+
+/**
+ * @internal please do not use.
+ */
+export function retrieve<T>(
+  key: string,
+  storage: PersistentStorage = defaultStorage(),
+  codec?: PersistenceCodec
+): PersistedState<T> | null {
+  if (isAsyncStorage(storage)) {
+    return null;
+  }
+  return parsePersistedState(storage.getItem(KeyPrefix + key), codec);
+}
+
+/**
+ * @internal please do not use.
+ */
+export function retrieveAsync<T>(
+  key: string,
+  storage: AsyncStorageAdapter,
+  codec?: PersistenceCodec
+): Promise<PersistedState<T> | null> {
+  return storage.get(KeyPrefix + key).then(raw => parsePersistedState<T>(raw, codec));
+}
+
+/**
+ * @internal please do not use.
+ */
+export function remove<T>(
+  key: string,
+  storage: PersistentStorage = defaultStorage()
+): void | Promise<void> {
+  WriteOrders.get(storage)?.delete(key);
+
+  if (isAsyncStorage(storage)) {
+    return storage.remove(KeyPrefix + key);
+  }
+  storage.removeItem(KeyPrefix + key);
+}
+
+/**
+ * @internal please do not use.
+ */
+function write(key: string, jsonString: string, storage: PersistentStorage): void | Promise<void> {
+  if (isAsyncStorage(storage)) {
+    return storage.set(KeyPrefix + key, jsonString).then(() => recordWrite(storage, key));
+  }
+  storage.setItem(KeyPrefix + key, jsonString);
+  recordWrite(storage, key);
+}
+
 /**
  * @internal please do not use.
  */
-export function save<T>(key: string, value: T, storage: Storage = Configuration.storage): void {
+function writeEvictingOldest(
+  key: string,
+  jsonString: string,
+  storage: PersistentStorage
+): void | Promise<void> {
+  if (isAsyncStorage(storage)) {
+    return Promise.resolve(write(key, jsonString, storage)).catch(error => {
+      if (!isQuotaExceededError(error)) {
+        throw error;
+      }
+      return storage.keys().then(keys => {
+        const oldestKey = findLeastRecentlyWrittenKey(storage, keys, key);
+        if (oldestKey == null) {
+          throw error;
+        }
+        return storage
+          .remove(KeyPrefix + oldestKey)
+          .then(() => writeEvictingOldest(key, jsonString, storage));
+      });
+    });
+  }
+
+  while (true) {
+    try {
+      return write(key, jsonString, storage);
+    } catch (error) {
+      const oldestKey = isQuotaExceededError(error)
+        ? findLeastRecentlyWrittenKey(storage, getStorageKeys(storage), key)
+        : null;
+      if (oldestKey == null) {
+        throw error;
+      }
+      storage.removeItem(KeyPrefix + oldestKey);
+    }
+  }
+}
+
+/**
+ * @internal please do not use.
+ *
+ * The names and codes used by the browsers for the storage quota errors.
+ */
+function isQuotaExceededError(error: any): boolean {
+  return (
+    error?.name === 'QuotaExceededError' ||
+    error?.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error?.code === 22 ||
+    error?.code === 1014
+  );
+}
+
+/**
+ * @internal please do not use.
+ *
+ * The ids of the Units, whose values have been written to a storage in this session,
+ * from the least recently written to the most recently written.
+ */
+const WriteOrders = new WeakMap<PersistentStorage, Set<string>>();
+
+/**
+ * @internal please do not use.
+ */
+function recordWrite(storage: PersistentStorage, key: string): void {
+  if (!WriteOrders.has(storage)) {
+    WriteOrders.set(storage, new Set());
+  }
+  const writeOrder = WriteOrders.get(storage);
+  // re-insert to move it to the end
+  writeOrder.delete(key);
+  writeOrder.add(key);
+}
+
+/**
+ * @internal please do not use.
+ *
+ * The values that haven't been written in this session are considered older than the ones that have been.
+ */
+function findLeastRecentlyWrittenKey(
+  storage: PersistentStorage,
+  storageKeys: string[],
+  exceptKey: string
+): string | undefined {
+  const keys = storageKeys
+    .filter(storageKey => storageKey.startsWith(KeyPrefix))
+    .map(storageKey => storageKey.slice(KeyPrefix.length))
+    .filter(key => key !== exceptKey);
+  const writeOrder = WriteOrders.get(storage) || new Set<string>();
+
+  return keys.find(key => !writeOrder.has(key)) ?? [...writeOrder].find(key => keys.includes(key));
+}
+
+/**
+ * @internal please do not use.
+ */
+function getStorageKeys(storage: Storage): string[] {
+  if (storage instanceof MemoryStorage) {
+    return storage.keys();
+  }
+  return Object.keys(storage);
+}
+
+/**
+ * A simple in-memory implementation of the `Storage` API, \
+ * the values stored in it only live as long as the app is running.
+ *
+ * It's used as a fallback if writing to the actual storage fails, see {@link SharedUnitConfig.persistFailStrategy}.
+ *
+ * @category Persistence
+ */
+export class MemoryStorage implements Storage {
+  /**
+   * @internal please do not use.
+   */
+  private readonly items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key) : null;
+  }
+
+  key(index: number): string | null {
+    return this.keys()[index] ?? null;
+  }
+
+  /**
+   * Lists the keys of all the stored items.
+   */
+  keys(): string[] {
+    return [...this.items.keys()];
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(String(key), String(value));
+  }
+}
+
+/**
+ * @internal please do not use.
+ */
+export function stringifyPersistedState<T>(
+  state: PersistedState<T>,
+  codec?: PersistenceCodec
+): string {
   let jsonString: string;
   try {
-    // wrap the value to later easily determine whether any value has been
-    // saved to storage or not.
-    // eg: If storage.get('item') is null, it can mean many things,
-    // but {value: null} can only mean that the value is null.
-    jsonString = JSON.stringify({value});
+    jsonString = JSON.stringify(state);
   } catch (e) {
     /* istanbul ignore next */
-    jsonString = JSON.stringify({value: String(value)});
+    jsonString = JSON.stringify({
+      ...state,
+      value: String(state.value),
+      cachedValues: state.cachedValues?.map(String),
+    });
   }
-  storage.setItem(KeyPrefix + key, jsonString);
+
+  return isFunction(codec?.encode) ? codec.encode(jsonString) : jsonString;
 }
 
 /**
  * @internal please do not use.
  */
-export function retrieve<T>(
-  key: string,
-  storage: Storage = Configuration.storage
-): {value: T} | null {
-  const raw = storage.getItem(KeyPrefix + key);
+export function parsePersistedState<T>(
+  raw: string | null,
+  codec?: PersistenceCodec
+): PersistedState<T> | null {
   try {
-    return JSON.parse(raw);
+    return JSON.parse(raw != null && isFunction(codec?.decode) ? codec.decode(raw) : raw);
   } catch (e) {
     /* istanbul ignore next */
     return null;
@@ -63,8 +418,33 @@ export function retrieve<T>(
 }
 
 /**
- * @internal please do not use.
+ * A {@link PersistenceSyncTransport} that listens to the `storage` events of the `window`,
+ * which get dispatched when another tab of the same origin modifies the `localStorage` (or `sessionStorage`).
+ *
+ * It's the default transport used by {@link SharedUnitConfig.syncAcrossTabs}. \
+ * Outside of browsers, e.g.: in Node, it doesn't do anything.
+ *
+ * @category Persistence
  */
-export function remove<T>(key: string, storage: Storage = Configuration.storage): void {
-  storage.removeItem(KeyPrefix + key);
+export class StorageEventSyncTransport implements PersistenceSyncTransport {
+  /**
+   * @param storage The storage whose changes should be listened to, \
+   * if not provided, the changes of any storage are listened to.
+   */
+  constructor(private readonly storage?: Storage) {}
+
+  listen(listener: (key: string, value: string | null) => void): () => void {
+    if (typeof window === 'undefined' || !isFunction(window.addEventListener)) {
+      return NOOP;
+    }
+
+    const handler = (event: StorageEvent) => {
+      if (event.key != null && (this.storage == null || event.storageArea === this.storage)) {
+        listener(event.key, event.newValue);
+      }
+    };
+
+    window.addEventListener('storage', handler);
+    return () => window.removeEventListener('storage', handler);
+  }
 }
@@ -0,0 +1,232 @@
+import {hasOwn, isDict, isObject} from '../utils/funcs';
+
+/**
+ * @internal please do not use.
+ */
+interface DraftState {
+  /**
+   * The original object, it never gets mutated.
+   */
+  base: any;
+  /**
+   * A shallow copy of the base, created on the first write to this draft or any of its child drafts.
+   */
+  copy: any;
+  /**
+   * The draft of the object that contains the base, if any.
+   */
+  parent: DraftState | null;
+  /**
+   * Child drafts created before the copy, they get moved into the copy once it's created.
+   */
+  drafts: Map<PropertyKey, any>;
+  /**
+   * Whether the copy has already been finalized.
+   */
+  finalized: boolean;
+  /**
+   * Revokes the Proxy, so that the draft can't be used after {@link produce} finishes.
+   */
+  revoke: () => void;
+}
+
+/**
+ * @internal please do not use.
+ */
+const DRAFT_STATE = Symbol('draftState');
+
+/**
+ * Creates a new value by applying the changes made by the recipe to a mutable draft of the base value,
+ * without mutating the base value.
+ *
+ * It's copy-on-write, only the objects and arrays that are changed (along with their parents) get copied, \
+ * the untouched parts are shared with the base value, by reference.
+ *
+ * Only plain objects and arrays are drafted, other values like `Map` or `Date` are passed as is.
+ *
+ * It's used by {@link UnitBase.dispatch}, if the Unit is configured to use
+ * `STRUCTURAL_SHARING` as {@link SharedUnitConfig.immutabilityMode}.
+ *
+ * @example
+ * ```typescript
+ * const state = {todos: [{title: 'a', completed: false}], filter: {}};
+ * const newState = produce(state, draft => {
+ *   draft.todos[0].completed = true;
+ * });
+ *
+ * newState.todos[0] !== state.todos[0]; // true
+ * newState.filter === state.filter; // true
+ * ```
+ *
+ * @param base The value to create the new value from.
+ * @param recipe A function that mutates the draft, or returns a new value. \
+ * If it returns `undefined` or the draft itself, the changes made to the draft are used.
+ * @returns The new value, or the base value if nothing changed.
+ *
+ * @category Global
+ */
+export function produce<T>(base: T, recipe: (draft: T) => T | void): T {
+  if (!isDraftable(base)) {
+    return recipe(base) as T;
+  }
+
+  const states: DraftState[] = [];
+  const draft = createDraft(base, null, states);
+  try {
+    const result = recipe(draft);
+    return finalize(result === undefined ? draft : result);
+  } finally {
+    states.forEach(state => state.revoke());
+  }
+}
+
+/**
+ * @internal please do not use.
+ */
+function isDraftable(o: any): boolean {
+  return Array.isArray(o) || isDict(o);
+}
+
+/**
+ * @internal please do not use.
+ */
+function draftState(o: any): DraftState | undefined {
+  return isObject(o) ? o[DRAFT_STATE] : undefined;
+}
+
+/**
+ * @internal please do not use.
+ */
+function latest(state: DraftState): any {
+  return state.copy || state.base;
+}
+
+/**
+ * @internal please do not use.
+ */
+function markChanged(state: DraftState): void {
+  if (state.copy) {
+    return;
+  }
+  state.copy = Array.isArray(state.base) ? [...state.base] : {...state.base};
+  state.drafts.forEach((draft, key) => (state.copy[key] = draft));
+
+  if (state.parent) {
+    markChanged(state.parent);
+  }
+}
+
+/**
+ * @internal please do not use.
+ */
+function createDraft(base: any, parent: DraftState | null, states: DraftState[]): any {
+  const state: DraftState = {
+    base,
+    copy: null,
+    parent,
+    drafts: new Map(),
+    finalized: false,
+    revoke: null,
+  };
+
+  // the target is a dummy, since Proxy invariants don't allow a frozen target to report drafts as its properties
+  const {proxy, revoke} = Proxy.revocable(Array.isArray(base) ? [] : {}, {
+    get(target, key) {
+      if (key === DRAFT_STATE) {
+        return state;
+      }
+      const source = latest(state);
+      const value = source[key];
+      if (!hasOwn(source, key) || !isDraftable(value) || draftState(value)) {
+        return value;
+      }
+      if (!state.copy && state.drafts.has(key)) {
+        return state.drafts.get(key);
+      }
+
+      const childDraft = createDraft(value, state, states);
+      if (state.copy) {
+        state.copy[key] = childDraft;
+      } else {
+        state.drafts.set(key, childDraft);
+      }
+      return childDraft;
+    },
+    set(target, key, value) {
+      const source = latest(state);
+      if (source[key] !== value || !hasOwn(source, key)) {
+        markChanged(state);
+        state.copy[key] = value;
+      }
+      return true;
+    },
+    deleteProperty(target, key) {
+      if (hasOwn(latest(state), key)) {
+        markChanged(state);
+        delete state.copy[key];
+      }
+      return true;
+    },
+    has(target, key) {
+      return key in latest(state);
+    },
+    ownKeys() {
+      return Reflect.ownKeys(latest(state));
+    },
+    getOwnPropertyDescriptor(target, key) {
+      const source = latest(state);
+      const descriptor = Reflect.getOwnPropertyDescriptor(source, key);
+      if (!descriptor) {
+        return descriptor;
+      }
+      return {
+        value: source[key],
+        writable: true,
+        enumerable: descriptor.enumerable,
+        // an array's length is non-configurable on the target as well
+        configurable: !(Array.isArray(source) && key === 'length'),
+      };
+    },
+    getPrototypeOf() {
+      return Object.getPrototypeOf(state.base);
+    },
+    defineProperty() {
+      return false;
+    },
+  });
+
+  state.revoke = revoke;
+  states.push(state);
+  return proxy;
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Replaces the drafts with their final values, i.e. the copy if it got changed, otherwise the base.
+ */
+function finalize(value: any): any {
+  const state = draftState(value);
+
+  if (!state) {
+    // a new object might contain drafts, e.g.: `draft.a = {b: draft.b}`
+    if (isDraftable(value) && !Object.isFrozen(value)) {
+      Object.keys(value).forEach(key => (value[key] = finalize(value[key])));
+    }
+    return value;
+  }
+  if (!state.copy) {
+    return state.base;
+  }
+
+  if (!state.finalized) {
+    state.finalized = true;
+    Object.keys(state.copy).forEach(key => {
+      const child = state.copy[key];
+      if (child !== state.base[key]) {
+        state.copy[key] = finalize(child);
+      }
+    });
+  }
+  return state.copy;
+}
@@ -0,0 +1,121 @@
+import {Observable, Subject} from 'rxjs';
+import {RegistryChange} from '../models';
+import {isValidId} from '../utils/funcs';
+import {Base} from './abstract-base';
+
+/**
+ * @internal please do not use.
+ */
+interface WeakRefLike<T> {
+  deref(): T | undefined;
+}
+
+/**
+ * @internal please do not use.
+ */
+declare const WeakRef: new <T extends object>(target: T) => WeakRefLike<T>;
+
+/**
+ * @internal please do not use.
+ *
+ * Holds the instance weakly if the environment supports `WeakRef`, otherwise strongly.
+ */
+function createRef<T extends object>(instance: T): WeakRefLike<T> {
+  return typeof WeakRef === 'function' ? new WeakRef(instance) : {deref: () => instance};
+}
+
+/**
+ * A global registry of the live Units, Systems, Actions and Clusters that have an id,
+ * to look them up by their {@link BaseConfig.id}.
+ *
+ * The instances get registered automatically once they're fully constructed, \
+ * if another instance with the same id gets constructed, it replaces the previous one.
+ *
+ * The instances are held using weak references, so that the registry doesn't prevent them from being garbage collected, \
+ * in environments that don't support `WeakRef`, they're held until they get unregistered.
+ *
+ * @category 4. Utility
+ */
+export class Registry {
+  // tslint:disable:variable-name
+
+  /**
+   * @internal please do not use.
+   */
+  private static readonly refs = new Map<string, WeakRefLike<Base<any>>>();
+
+  /**
+   * @internal please do not use.
+   */
+  private static readonly changesSubject = new Subject<RegistryChange>();
+
+  // tslint:enable:variable-name
+
+  /**
+   * An Observable to observe the registrations and unregistrations. \
+   * The instances that get garbage collected are removed silently.
+   */
+  static readonly changes$: Observable<RegistryChange> = Registry.changesSubject.asObservable();
+
+  /**
+   * Looks up a live instance by its id.
+   *
+   * @param id The id of the instance.
+   * @returns The instance, or `undefined` if there's none.
+   */
+  static get<T extends Base<any> = Base<any>>(id: string): T | undefined {
+    const instance = Registry.refs.get(id)?.deref();
+    if (!instance) {
+      Registry.refs.delete(id);
+    }
+    return instance as T;
+  }
+
+  /**
+   * Lists all the live instances, in the order they were registered.
+   */
+  static all(): Base<any>[] {
+    return [...Registry.refs.keys()].map(id => Registry.get(id)).filter(Boolean);
+  }
+
+  /**
+   * Registers an instance, replacing the existing instance with the same id, if any. \
+   * It's done automatically on construction, it's only needed to re-register an unregistered instance.
+   *
+   * @param instance The instance to be registered, it must have an id.
+   *
+   * @triggers {@link RegistryChange} REGISTER
+   */
+  static register(instance: Base<any>): void {
+    const id = instance?.config?.id;
+    if (!isValidId(id)) {
+      throw new TypeError(`Only the instances with an id can be registered, got ${String(id)}`);
+    }
+
+    Registry.refs.delete(id); // re-insert to move it to the end
+    Registry.refs.set(id, createRef(instance));
+    Registry.changesSubject.next({type: 'REGISTER', id, instance});
+  }
+
+  /**
+   * Unregisters an instance, so that it can not be looked up anymore.
+   *
+   * @param idOrInstance The id of the instance, or the instance itself. \
+   * If an instance is passed, it's only unregistered if it's the one currently registered with its id.
+   * @returns `true` if an instance was unregistered, otherwise `false`.
+   *
+   * @triggers {@link RegistryChange} UNREGISTER
+   */
+  static unregister(idOrInstance: string | Base<any>): boolean {
+    const id = typeof idOrInstance === 'string' ? idOrInstance : idOrInstance?.config?.id;
+    const instance = Registry.get(id);
+
+    if (!instance || (typeof idOrInstance !== 'string' && instance !== idOrInstance)) {
+      return false;
+    }
+
+    Registry.refs.delete(id);
+    Registry.changesSubject.next({type: 'UNREGISTER', id, instance});
+    return true;
+  }
+}
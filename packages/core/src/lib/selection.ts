@@ -21,8 +21,14 @@ export class Selection<T, U extends UnitBase<any> = UnitBase<any>, K extends KOf
   }
 
   value(): T | undefined {
-    const valAtPath = plucker(this.unit.rawValue(), this.path);
-    return (this.unit as any).deepCopyMaybe(valAtPath);
+    return (this.unit as any).deepCopyMaybe(this.rawValue());
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  rawValue(): T | undefined {
+    return plucker(this.unit.rawValue(), this.path);
   }
 
   asObservable(): Observable<T | undefined> {
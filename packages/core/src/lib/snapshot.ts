@@ -0,0 +1,64 @@
+import {RestoreStateOptions, StateSnapshot} from '../models';
+import {isDict} from '../utils/funcs';
+import {UnitBase} from './abstract-unit-base';
+import {Registry} from './registry';
+import {batch} from './transaction';
+
+/**
+ * Captures the state of all the live Units that have an id, see {@link Registry}, \
+ * e.g.: to attach it to a bug report, or to transfer it from the server to the client.
+ *
+ * The snapshot only contains plain values, it can be serialized using `JSON.stringify`,
+ * as long as the values of the Units can be, see {@link SharedUnitConfig.serialize}.
+ *
+ * @returns The state of the Units, mapped by their ids.
+ *
+ * @category Global
+ */
+export function snapshotState(): StateSnapshot {
+  return Registry.all().reduce((snapshot, instance) => {
+    if (instance instanceof UnitBase) {
+      snapshot[instance.config.id] = instance.createSnapshot();
+    }
+    return snapshot;
+  }, {} as StateSnapshot);
+}
+
+/**
+ * Restores the state captured by {@link snapshotState},
+ * by dispatching the captured values to the live Units with the same ids,
+ * and restoring their cached values, cacheIndex and frozen status.
+ *
+ * The Units that don't accept the captured value are skipped, see {@link UnitBase.wouldDispatch},
+ * unless the `force` option is used. \
+ * All the dispatches are batched, see {@link batch}.
+ *
+ * @param snapshot The captured state.
+ * @param options Restore options.
+ * @returns The ids of the Units that got restored.
+ *
+ * @category Global
+ */
+export function restoreState(snapshot: StateSnapshot, options?: RestoreStateOptions): string[] {
+  const {force}: RestoreStateOptions = {...options};
+  const restoredIds: string[] = [];
+
+  if (!isDict(snapshot)) {
+    return restoredIds;
+  }
+
+  batch(() =>
+    Object.keys(snapshot).forEach(id => {
+      const unit = Registry.get(id);
+      if (
+        unit instanceof UnitBase &&
+        isDict(snapshot[id]) &&
+        unit.restoreSnapshot(snapshot[id], force === true)
+      ) {
+        restoredIds.push(id);
+      }
+    })
+  );
+
+  return restoredIds;
+}
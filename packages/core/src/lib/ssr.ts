@@ -0,0 +1,119 @@
+import {StateSnapshot, StateTransferOptions, UnitSnapshot} from '../models';
+import {isDict} from '../utils/funcs';
+import {restoreState, snapshotState} from './snapshot';
+
+/**
+ * @internal please do not use.
+ */
+const DefaultGlobalName = '__ACTIVEJS_STATE__';
+
+/**
+ * @internal please do not use.
+ *
+ * The hydrated states of the Units that haven't been constructed yet, mapped by their ids.
+ */
+const HydratedStates = new Map<string, UnitSnapshot<any>>();
+
+/**
+ * Serializes the state of all the live Units that have an id into a JSON string,
+ * that can be safely embedded into an HTML page, see {@link snapshotState}.
+ *
+ * @param snapshot The state to be serialized.
+ * @returns The JSON string, with the characters that could break out of a script tag escaped.
+ *
+ * @category Global
+ */
+export function serializeState(snapshot: StateSnapshot = snapshotState()): string {
+  return escapeForScript(JSON.stringify(snapshot));
+}
+
+/**
+ * Renders a script tag that transfers the state of all the live Units that have an id to the client,
+ * to be included in the HTML rendered on the server. \
+ * On the client, call {@link hydrate} before the Units are constructed, to pick up the transferred state.
+ *
+ * @param options Transfer options.
+ * @param snapshot The state to be transferred.
+ * @returns The script tag.
+ *
+ * @category Global
+ */
+export function renderStateScript(
+  options?: StateTransferOptions,
+  snapshot: StateSnapshot = snapshotState()
+): string {
+  const {globalName = DefaultGlobalName, nonce}: StateTransferOptions = {...options};
+  const nonceAttribute =
+    nonce != null ? ` nonce="${String(nonce).replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"` : '';
+
+  return (
+    `<script${nonceAttribute}>` +
+    `window[${escapeForScript(JSON.stringify(globalName))}]=${serializeState(snapshot)};` +
+    `</script>`
+  );
+}
+
+/**
+ * Picks up the state transferred from the server, see {@link renderStateScript}.
+ *
+ * The Units constructed afterwards are initialized with the transferred state,
+ * which takes precedence over their persisted and initial values. \
+ * The already existing Units get the transferred state dispatched, see {@link restoreState}.
+ *
+ * Every Unit picks up its transferred state only once.
+ *
+ * @param payload The transferred state, or its JSON string. \
+ * If not provided, it's read from the global variable set by the script rendered using {@link renderStateScript}.
+ * @param options Transfer options.
+ *
+ * @category Global
+ */
+export function hydrate(payload?: StateSnapshot | string, options?: StateTransferOptions): void {
+  const {globalName = DefaultGlobalName}: StateTransferOptions = {...options};
+
+  if (payload === undefined && typeof window !== 'undefined') {
+    payload = window[globalName];
+  }
+  if (typeof payload === 'string') {
+    try {
+      payload = JSON.parse(payload);
+    } catch (e) {
+      return;
+    }
+  }
+  if (!isDict(payload)) {
+    return;
+  }
+
+  const snapshot = payload as StateSnapshot;
+  const restoredIds = restoreState(snapshot, {force: true});
+
+  Object.keys(snapshot).forEach(id => {
+    if (!restoredIds.includes(id) && isDict(snapshot[id])) {
+      HydratedStates.set(id, snapshot[id]);
+    }
+  });
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Retrieves and forgets the hydrated state of a Unit, see {@link hydrate}.
+ */
+export function takeHydratedState(id: string): UnitSnapshot<any> | undefined {
+  const state = HydratedStates.get(id);
+  HydratedStates.delete(id);
+  return state;
+}
+
+/**
+ * @internal please do not use.
+ */
+function escapeForScript(jsonString: string): string {
+  return jsonString
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
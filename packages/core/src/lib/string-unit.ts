@@ -59,6 +59,7 @@ export class StringUnit extends UnitBase<string> {
     });
 
     makeNonEnumerable(this);
+    this.registerMaybe();
   }
 
   /**
@@ -0,0 +1,244 @@
+import {Base} from './abstract-base';
+
+/**
+ * @internal please do not use.
+ */
+interface TransactionContext {
+  /**
+   * Whether the changes should be rolled back if the callback throws.
+   */
+  rollback: boolean;
+  /**
+   * Whether this or any of the parent transactions can roll back the changes.
+   */
+  tracking: boolean;
+  /**
+   * Restore functions of the Units that got changed in this transaction,
+   * in the order they got changed.
+   */
+  restorers: Map<Base<any>, () => void>;
+  /**
+   * The parent transaction, if this is a nested transaction.
+   */
+  parent: TransactionContext | null;
+}
+
+/**
+ * @internal please do not use.
+ */
+let activeContext: TransactionContext = null;
+
+/**
+ * @internal please do not use.
+ *
+ * Constructs whose emission has been deferred, in the order they tried to emit.
+ * It's shared by all the nested transactions, and only flushed by the outermost one.
+ */
+let deferredConstructs: Set<Base<any>> = null;
+
+/**
+ * @internal please do not use.
+ *
+ * Constructs that got rolled back by any of the failed transactions, since the outermost one started.
+ */
+let rolledBackConstructs: Set<Base<any>> = null;
+
+/**
+ * @internal please do not use.
+ *
+ * The construct that is currently being allowed to emit while flushing the deferred emissions.
+ */
+let flushingConstruct: Base<any> = null;
+
+/**
+ * Runs the given callback as a transaction, \
+ * all the emissions of the Units, Systems, Actions and Clusters that get triggered inside the callback
+ * are deferred until the callback finishes, \
+ * after which every affected construct emits only once, with its final value.
+ *
+ * If the callback throws, every Unit that got changed inside the callback is rolled back to
+ * the state it was in before the transaction started, ie: its value, cached-values and cacheIndex,
+ * and the deferred emissions of the rolled back Units are discarded, before re-throwing the error. \
+ * The constructs that can not be rolled back, e.g.: Actions, still emit their deferred emissions.
+ *
+ * Transactions can be nested, a nested transaction only rolls back its own changes if it fails,
+ * and the emissions are deferred until the outermost transaction (or {@link batch}) finishes.
+ *
+ * Note: Only the value emissions are deferred, the {@link Base.events$} are still emitted synchronously.
+ *
+ * @example
+ * ```typescript
+ * const cluster = new Cluster({a: new NumUnit(), b: new StringUnit()});
+ * cluster.subscribe(console.log); // logs {a: 0, b: ''}
+ *
+ * transaction(() => {
+ *   cluster.items.a.dispatch(1);
+ *   cluster.items.b.dispatch('hi');
+ * });
+ * // logs {a: 1, b: 'hi'}, only once
+ * ```
+ *
+ * @param fn The callback to run inside the transaction.
+ * @returns The value returned by the callback.
+ *
+ * @category Global
+ */
+export function transaction<R>(fn: () => R): R {
+  return runInContext(fn, true);
+}
+
+/**
+ * Runs the given callback in a batch, \
+ * all the emissions of the Units, Systems, Actions and Clusters that get triggered inside the callback
+ * are deferred until the callback finishes, \
+ * after which every affected construct emits only once, with its final value.
+ *
+ * Unlike a {@link transaction}, nothing is rolled back if the callback throws,
+ * the deferred emissions are flushed, and the error is re-thrown.
+ *
+ * @param fn The callback to run inside the batch.
+ * @returns The value returned by the callback.
+ *
+ * @category Global
+ */
+export function batch<R>(fn: () => R): R {
+  return runInContext(fn, false);
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Called by {@link Base} before emitting a value,
+ * to determine whether the emission has to be deferred or not.
+ *
+ * @returns `true` if the emission got deferred, otherwise `false`.
+ */
+export function deferEmission(construct: Base<any>): boolean {
+  if (deferredConstructs && construct !== flushingConstruct) {
+    deferredConstructs.add(construct);
+    // it changed again after getting rolled back, the new change has to be emitted
+    rolledBackConstructs?.delete(construct);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Whether a Unit needs to provide a way to restore its current state,
+ * before it gets changed.
+ */
+export function needsRollbackRestorer(construct: Base<any>): boolean {
+  return activeContext?.tracking === true && !activeContext.restorers.has(construct);
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Saves a function that restores the state of a Unit,
+ * to be called if the current transaction fails.
+ */
+export function addRollbackRestorer(construct: Base<any>, restorer: () => void): void {
+  if (needsRollbackRestorer(construct)) {
+    activeContext.restorers.set(construct, restorer);
+  }
+}
+
+/**
+ * @internal please do not use.
+ */
+function runInContext<R>(fn: () => R, rollback: boolean): R {
+  const isOutermost = deferredConstructs == null;
+  const context: TransactionContext = {
+    rollback,
+    tracking: rollback || activeContext?.tracking === true,
+    restorers: new Map(),
+    parent: activeContext,
+  };
+
+  if (isOutermost) {
+    deferredConstructs = new Set();
+    rolledBackConstructs = new Set();
+  }
+  activeContext = context;
+
+  let result: R;
+  try {
+    result = fn();
+  } catch (e) {
+    activeContext = context.parent;
+
+    if (rollback) {
+      context.restorers.forEach((restore, construct) => {
+        restore();
+        rolledBackConstructs.add(construct);
+      });
+    } else {
+      mergeRestorers(context);
+    }
+
+    if (isOutermost) {
+      const deferred = deferredConstructs;
+      const rolledBack = rolledBackConstructs;
+      deferredConstructs = rolledBackConstructs = null;
+
+      // the rolled back changes were never emitted, no need to emit them
+      flush(new Set([...deferred].filter(construct => !rolledBack.has(construct))));
+    }
+    throw e;
+  }
+
+  activeContext = context.parent;
+  mergeRestorers(context);
+
+  if (isOutermost) {
+    const deferred = deferredConstructs;
+    deferredConstructs = rolledBackConstructs = null;
+    flush(deferred);
+  }
+  return result;
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Hands over the restorers of a finished nested transaction to its parent transaction,
+ * so that the parent can still roll back these changes if it fails.
+ */
+function mergeRestorers(context: TransactionContext): void {
+  if (context.parent?.tracking !== true) {
+    return;
+  }
+  context.restorers.forEach((restore, construct) => {
+    if (!context.parent.restorers.has(construct)) {
+      context.parent.restorers.set(construct, restore);
+    }
+  });
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Emits every deferred construct once,
+ * emissions triggered by these emissions (e.g.: by Clusters and Systems) are again deferred and
+ * flushed afterwards, until there's nothing left to emit.
+ */
+function flush(queue: Set<Base<any>>): void {
+  deferredConstructs = queue;
+
+  try {
+    while (queue.size) {
+      const [construct] = queue;
+      queue.delete(construct);
+
+      flushingConstruct = construct;
+      // tslint:disable-next-line:no-string-literal
+      construct['emit']();
+      flushingConstruct = null;
+    }
+  } finally {
+    flushingConstruct = null;
+    deferredConstructs = null;
+  }
+}
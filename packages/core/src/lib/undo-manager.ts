@@ -0,0 +1,310 @@
+import {BehaviorSubject, Observable, Subscription} from 'rxjs';
+import {distinctUntilChanged} from 'rxjs/operators';
+import {UndoManagerConfig} from '../models';
+import {isNumber} from '../utils/funcs';
+import {UnitBase} from './abstract-unit-base';
+import {batch, transaction} from './transaction';
+
+/**
+ * @internal please do not use.
+ *
+ * The values of the Units changed in a history step, mapped by the Units, in the order they got changed.
+ */
+type UndoStep = Map<UnitBase<any>, {before: any; after: any}>;
+
+/**
+ * An UndoManager coordinates undo/redo across multiple Units. \
+ * It groups the changes made to the Units into history steps,
+ * so that a user action that touched more than one Unit can be undone, or redone, as a single step.
+ *
+ * By default, every change is a separate step, \
+ * the changes can be grouped using {@link group}, or by configuring an {@link UndoManagerConfig.action}.
+ *
+ * Undoing or redoing a step dispatches the recorded values to the Units, in a {@link batch},
+ * it doesn't use the Units' own cache navigation, e.g.: {@link UnitBase.goBack}. \
+ * The values bypass the middlewares, and are dispatched with `force = true`, \
+ * if any of the Units doesn't accept its value, e.g.: it's frozen, the step is not applied.
+ *
+ * @example
+ * ```typescript
+ * const todos = new ListUnit<string>();
+ * const counts = new DictUnit({initialValue: {total: 0}});
+ * const undoManager = new UndoManager([todos, counts]);
+ *
+ * undoManager.group(() => {
+ *   todos.push('buy milk');
+ *   counts.set('total', 1);
+ * });
+ *
+ * undoManager.undo(); // todos: [], counts: {total: 0}
+ * undoManager.redo(); // todos: ['buy milk'], counts: {total: 1}
+ * ```
+ *
+ * @category 4. Utility
+ */
+export class UndoManager {
+  /**
+   * Configured options.
+   */
+  readonly config: Readonly<UndoManagerConfig>;
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly undoSteps: UndoStep[] = [];
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly redoSteps: UndoStep[] = [];
+
+  /**
+   * @internal please do not use.
+   *
+   * The step that the next change becomes part of, if any.
+   */
+  private openStep: UndoStep = null;
+
+  /**
+   * @internal please do not use.
+   */
+  private groupDepth = 0;
+
+  /**
+   * @internal please do not use.
+   */
+  private isApplying = false;
+
+  /**
+   * @internal please do not use.
+   *
+   * The last known raw values of the Units, to know what they were before a change.
+   */
+  private readonly lastValues = new Map<UnitBase<any>, any>();
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly subscriptions = new Subscription();
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly canUndoSubject = new BehaviorSubject<boolean>(false);
+
+  /**
+   * @internal please do not use.
+   */
+  private readonly canRedoSubject = new BehaviorSubject<boolean>(false);
+
+  /**
+   * An Observable that emits whether there's a step that can be undone or not. \
+   * It replays the current status on subscription.
+   */
+  readonly canUndo$: Observable<boolean> = this.canUndoSubject.pipe(distinctUntilChanged());
+
+  /**
+   * An Observable that emits whether there's a step that can be redone or not. \
+   * It replays the current status on subscription.
+   */
+  readonly canRedo$: Observable<boolean> = this.canRedoSubject.pipe(distinctUntilChanged());
+
+  /**
+   * Indicates whether there's a step that can be undone or not.
+   */
+  get canUndo(): boolean {
+    return this.canUndoSubject.value;
+  }
+
+  /**
+   * Indicates whether there's a step that can be redone or not.
+   */
+  get canRedo(): boolean {
+    return this.canRedoSubject.value;
+  }
+
+  /**
+   * @param units The Units whose changes should be recorded.
+   * @param config Configuration options for the UndoManager.
+   */
+  constructor(units: UnitBase<any>[], config?: UndoManagerConfig) {
+    this.config = Object.freeze({maxDepth: 100, ...config});
+
+    units.forEach(unit => {
+      if (!(unit instanceof UnitBase)) {
+        throw new TypeError(`Only Units can be managed by an UndoManager, got ${String(unit)}`);
+      }
+      this.lastValues.set(unit, unit.rawValue());
+      this.subscriptions.add(unit.future$.subscribe(() => this.onChange(unit)));
+    });
+
+    if (this.config.action) {
+      this.subscriptions.add(this.config.action.future$.subscribe(() => this.closeStep()));
+    }
+  }
+
+  /**
+   * Runs the given callback as a {@link transaction},
+   * and groups all the changes made to the Units inside the callback into a single step.
+   *
+   * If the callback throws, the changes are rolled back, and no step is recorded.
+   *
+   * Note: It shouldn't be called inside a {@link batch} or {@link transaction},
+   * as the emissions would be deferred until after the callback, and recorded as separate steps.
+   *
+   * @param fn The callback that changes the Units.
+   * @returns The value returned by the callback.
+   */
+  group<R>(fn: () => R): R {
+    if (this.groupDepth === 0) {
+      this.closeStep();
+    }
+    ++this.groupDepth;
+    try {
+      return transaction(fn);
+    } finally {
+      --this.groupDepth;
+      if (this.groupDepth === 0) {
+        this.closeStep();
+      }
+    }
+  }
+
+  /**
+   * Restores the Units to the values they had before the last step.
+   *
+   * @returns `true` if the last step got undone,
+   * `false` if there was no step to undo, or any of the Units didn't accept its value.
+   */
+  undo(): boolean {
+    const step = this.undoSteps[this.undoSteps.length - 1];
+    if (!step) {
+      return false;
+    }
+    this.closeStep();
+    if (
+      !this.apply(
+        [...step].reverse().map(([unit, {before}]): [UnitBase<any>, any] => [unit, before])
+      )
+    ) {
+      return false;
+    }
+    this.undoSteps.pop();
+    this.redoSteps.push(step);
+    this.updateStatus();
+    return true;
+  }
+
+  /**
+   * Restores the Units to the values they had after the last undone step.
+   *
+   * @returns `true` if the last undone step got redone,
+   * `false` if there was no step to redo, or any of the Units didn't accept its value.
+   */
+  redo(): boolean {
+    const step = this.redoSteps[this.redoSteps.length - 1];
+    if (!step) {
+      return false;
+    }
+    this.closeStep();
+    if (!this.apply([...step].map(([unit, {after}]): [UnitBase<any>, any] => [unit, after]))) {
+      return false;
+    }
+    this.redoSteps.pop();
+    this.undoSteps.push(step);
+    this.updateStatus();
+    return true;
+  }
+
+  /**
+   * Forgets all the recorded steps, the Units are left as is.
+   */
+  clear(): void {
+    this.closeStep();
+    this.undoSteps.length = 0;
+    this.redoSteps.length = 0;
+    this.updateStatus();
+  }
+
+  /**
+   * Stops recording the changes, and completes {@link canUndo$} and {@link canRedo$}. \
+   * It can not be undone.
+   */
+  dispose(): void {
+    this.subscriptions.unsubscribe();
+    this.clear();
+    this.canUndoSubject.complete();
+    this.canRedoSubject.complete();
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private onChange(unit: UnitBase<any>): void {
+    const value = unit.rawValue();
+    const before = this.lastValues.get(unit);
+    this.lastValues.set(unit, value);
+
+    const {maxDepth} = this.config;
+    const hasMaxDepth = isNumber(maxDepth) && maxDepth >= 0;
+    // no step can be kept, nothing to record
+    if (this.isApplying || value === before || (hasMaxDepth && maxDepth < 1)) {
+      return;
+    }
+
+    if (!this.openStep) {
+      this.openStep = new Map();
+      this.undoSteps.push(this.openStep);
+
+      if (hasMaxDepth && this.undoSteps.length > maxDepth) {
+        this.undoSteps.splice(0, this.undoSteps.length - maxDepth);
+      }
+      this.redoSteps.length = 0;
+    }
+
+    const change = this.openStep.get(unit);
+    this.openStep.set(unit, {before: change ? change.before : before, after: value});
+
+    if (this.groupDepth === 0 && !this.config.action) {
+      this.closeStep();
+    }
+    this.updateStatus();
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private closeStep(): void {
+    this.openStep = null;
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private apply(values: [UnitBase<any>, any][]): boolean {
+    if (!values.every(([unit, value]) => unit.wouldDispatch(value, true))) {
+      return false;
+    }
+
+    this.isApplying = true;
+    try {
+      // bypassing the middlewares, a delayed value would be recorded as a new change
+      // tslint:disable-next-line:no-string-literal
+      batch(() => values.forEach(([unit, value]) => unit['dispatchValue'](value, {force: true})));
+    } finally {
+      this.isApplying = false;
+    }
+
+    // the emissions might be deferred by an outer batch, they shouldn't be recorded as a change
+    values.forEach(([unit]) => this.lastValues.set(unit, unit.rawValue()));
+    return true;
+  }
+
+  /**
+   * @internal please do not use.
+   */
+  private updateStatus(): void {
+    this.canUndoSubject.next(this.undoSteps.length > 0);
+    this.canRedoSubject.next(this.redoSteps.length > 0);
+  }
+}
@@ -0,0 +1,313 @@
+import {CachePatches, SharedUnitConfig, UnitHistoryEntry} from '../models';
+import {applyPatches, createPatches} from './patches';
+
+/**
+ * @internal please do not use.
+ *
+ * The details of a cached value, its index is implied by its position in the cache.
+ */
+export type CacheEntry = Omit<UnitHistoryEntry, 'index'>;
+
+/**
+ * @internal please do not use.
+ *
+ * The storage of a Unit's cached values along with their entries, see {@link SharedUnitConfig.historyMode}.
+ */
+export interface ValueCache<T> {
+  readonly length: number;
+
+  has(index: number): boolean;
+
+  get(index: number): T;
+
+  values(): T[];
+
+  patches(): CachePatches[];
+
+  entry(index: number): CacheEntry;
+
+  entries(): CacheEntry[];
+
+  set(index: number, value: T, entry: CacheEntry): void;
+
+  setLabel(index: number, label: string): void;
+
+  push(value: T, entry: CacheEntry): void;
+
+  shift(): void;
+
+  splice(start: number, deleteCount: number): void;
+
+  replace(values: T[], entries: CacheEntry[]): void;
+
+  /**
+   * Saves the current state of the cache, and returns a function that restores it.
+   */
+  backup(): () => void;
+}
+
+/**
+ * @internal please do not use.
+ */
+export function createValueCache<T>(
+  historyMode: SharedUnitConfig<T>['historyMode']
+): ValueCache<T> {
+  return historyMode === 'PATCHES' ? new PatchesCache<T>() : new ValuesCache<T>();
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Keeps track of the entries, the values are stored by the subclasses.
+ */
+abstract class ValueCacheBase<T> implements ValueCache<T> {
+  private cacheEntries: CacheEntry[] = [];
+
+  get length(): number {
+    return this.cacheEntries.length;
+  }
+
+  has(index: number): boolean {
+    return this.cacheEntries.hasOwnProperty(index);
+  }
+
+  abstract get(index: number): T;
+
+  abstract values(): T[];
+
+  abstract patches(): CachePatches[];
+
+  entry(index: number): CacheEntry {
+    return this.cacheEntries[index];
+  }
+
+  entries(): CacheEntry[] {
+    return [...this.cacheEntries];
+  }
+
+  set(index: number, value: T, entry: CacheEntry): void {
+    if (!this.has(index)) {
+      return;
+    }
+    this.setValue(index, value);
+    this.cacheEntries[index] = entry;
+  }
+
+  setLabel(index: number, label: string): void {
+    if (this.has(index)) {
+      this.cacheEntries[index] = {...this.cacheEntries[index], label};
+    }
+  }
+
+  push(value: T, entry: CacheEntry): void {
+    this.pushValue(value);
+    this.cacheEntries.push(entry);
+  }
+
+  shift(): void {
+    this.shiftValue();
+    this.cacheEntries.shift();
+  }
+
+  splice(start: number, deleteCount: number): void {
+    if (deleteCount <= 0 || start >= this.length) {
+      return;
+    }
+    this.spliceValues(start, deleteCount);
+    this.cacheEntries.splice(start, deleteCount);
+  }
+
+  replace(values: T[], entries: CacheEntry[]): void {
+    this.replaceValues(values);
+    this.cacheEntries = [...entries];
+  }
+
+  backup(): () => void {
+    const restoreValues = this.backupValues();
+    const cacheEntries = [...this.cacheEntries];
+
+    return () => {
+      restoreValues();
+      this.cacheEntries = cacheEntries;
+    };
+  }
+
+  // the value methods get called before the entries are updated, i.e. with the old length
+
+  protected abstract setValue(index: number, value: T): void;
+
+  protected abstract pushValue(value: T): void;
+
+  protected abstract shiftValue(): void;
+
+  protected abstract spliceValues(start: number, deleteCount: number): void;
+
+  protected abstract replaceValues(values: T[]): void;
+
+  protected abstract backupValues(): () => void;
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Stores every cached value as is.
+ */
+class ValuesCache<T> extends ValueCacheBase<T> {
+  private readonly items: T[] = [];
+
+  get(index: number): T {
+    return this.items[index];
+  }
+
+  values(): T[] {
+    return [...this.items];
+  }
+
+  patches(): CachePatches[] {
+    return this.items.slice(1).map((value, i) => createPatches(this.items[i], value));
+  }
+
+  protected setValue(index: number, value: T): void {
+    this.items[index] = value;
+  }
+
+  protected pushValue(value: T): void {
+    this.items.push(value);
+  }
+
+  protected shiftValue(): void {
+    this.items.shift();
+  }
+
+  protected spliceValues(start: number, deleteCount: number): void {
+    this.items.splice(start, deleteCount);
+  }
+
+  protected replaceValues(values: T[]): void {
+    this.items.splice(0, this.items.length, ...values);
+  }
+
+  protected backupValues(): () => void {
+    const items = [...this.items];
+    return () => this.replaceValues(items);
+  }
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Stores only the latest cached value as is,
+ * and the patches between the successive values to reconstruct the older values.
+ */
+class PatchesCache<T> extends ValueCacheBase<T> {
+  private latest: T;
+
+  /**
+   * The patches at index `i` convert the value at index `i` to the value at index `i + 1`, and back.
+   */
+  private cachePatches: CachePatches[] = [];
+
+  /**
+   * The last reconstructed value, the nearby values are reconstructed from it,
+   * it makes stepping through the cache, e.g.: using `goBack`, cheap.
+   */
+  private lastRead: {index: number; value: T} = null;
+
+  get(index: number): T {
+    if (!this.has(index)) {
+      return undefined;
+    }
+
+    let currentIndex = this.length - 1;
+    let value = this.latest;
+    if (this.lastRead && Math.abs(this.lastRead.index - index) < currentIndex - index) {
+      ({index: currentIndex, value} = this.lastRead);
+    }
+    for (; currentIndex > index; --currentIndex) {
+      value = applyPatches(value, this.cachePatches[currentIndex - 1].inverse);
+    }
+    for (; currentIndex < index; ++currentIndex) {
+      value = applyPatches(value, this.cachePatches[currentIndex].forward);
+    }
+
+    this.lastRead = {index, value};
+    return value;
+  }
+
+  values(): T[] {
+    const values: T[] = [];
+    let value = this.latest;
+    for (let i = this.length - 1; i >= 0; --i) {
+      values[i] = value;
+      if (i > 0) {
+        value = applyPatches(value, this.cachePatches[i - 1].inverse);
+      }
+    }
+    return values;
+  }
+
+  patches(): CachePatches[] {
+    return [...this.cachePatches];
+  }
+
+  protected setValue(index: number, value: T): void {
+    const previousValue = index > 0 ? this.get(index - 1) : undefined;
+    const nextValue = index < this.length - 1 ? this.get(index + 1) : undefined;
+
+    if (index > 0) {
+      this.cachePatches[index - 1] = createPatches(previousValue, value);
+    }
+    if (index < this.length - 1) {
+      this.cachePatches[index] = createPatches(value, nextValue);
+    } else {
+      this.latest = value;
+    }
+    this.lastRead = {index, value};
+  }
+
+  protected pushValue(value: T): void {
+    if (this.length) {
+      this.cachePatches.push(createPatches(this.latest, value));
+    }
+    this.latest = value;
+  }
+
+  protected shiftValue(): void {
+    if (this.length <= 1) {
+      this.replaceValues([]);
+      return;
+    }
+    this.cachePatches.shift();
+    this.lastRead =
+      this.lastRead?.index > 0 ? {...this.lastRead, index: this.lastRead.index - 1} : null;
+  }
+
+  protected spliceValues(start: number, deleteCount: number): void {
+    // removing from the end only needs the new latest value to be reconstructed
+    if (start > 0 && start + deleteCount >= this.length) {
+      this.latest = this.get(start - 1);
+      this.cachePatches.length = start - 1;
+      return;
+    }
+    const values = this.values();
+    values.splice(start, deleteCount);
+    this.replaceValues(values);
+  }
+
+  protected replaceValues(values: T[]): void {
+    this.latest = values[values.length - 1];
+    this.cachePatches = values.slice(1).map((value, i) => createPatches(values[i], value));
+    this.lastRead = null;
+  }
+
+  protected backupValues(): () => void {
+    const {latest, lastRead} = this;
+    const cachePatches = [...this.cachePatches];
+
+    return () => {
+      this.latest = latest;
+      this.cachePatches = cachePatches;
+      this.lastRead = lastRead;
+    };
+  }
+}
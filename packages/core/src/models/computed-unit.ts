@@ -0,0 +1,50 @@
+import {Base} from '../lib/abstract-base';
+import {Selection} from '../lib/selection';
+
+/**
+ * Configuration options for a ComputedUnit.
+ *
+ * @category Computed
+ */
+export interface ComputedUnitConfig {
+  /**
+   * A unique id to identify a ComputedUnit.
+   *
+   * @default `undefined`
+   */
+  id?: string;
+  /**
+   * A flag to control the replay behaviour of a ComputedUnit. \
+   * It decides whether the value should be replayed when you subscribe to the default Observable.
+   *
+   * @default `true`
+   */
+  replay?: boolean;
+}
+
+/**
+ * The inputs a ComputedUnit can be derived from,
+ * i.e. Units, Systems, Actions, Clusters, other ComputedUnits or Selections.
+ *
+ * @category Computed
+ */
+export type ComputedUnitSource = Base<any> | Selection<any, any>;
+
+/**
+ * @internal please do not use.
+ * @category Computed
+ */
+export type ComputedUnitSourcesToValues<S extends ComputedUnitSource[]> = {
+  [K in keyof S]: S[K] extends {value(): infer V} ? V : never;
+};
+
+/**
+ * The function that derives the value of a ComputedUnit from the values of its sources.
+ *
+ * It should be a pure function, it only gets called again if the value of any of the sources changes.
+ *
+ * @category Computed
+ */
+export type ComputedUnitProjector<S extends ComputedUnitSource[], T> = (
+  ...values: ComputedUnitSourcesToValues<S>
+) => T;
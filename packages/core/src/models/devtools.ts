@@ -0,0 +1,125 @@
+/**
+ * An action as understood by the Redux DevTools, i.e. a description of what happened. \
+ * For ActiveJS, the `type` is made of the id of the construct and the name of the event, e.g.: `[counter] EventUnitDispatch`,
+ * and the `payload` is the event itself.
+ *
+ * @category DevTools
+ */
+export interface DevToolsAction {
+  type: string;
+  payload?: any;
+}
+
+/**
+ * A message sent by the Redux DevTools to the app, e.g.: when the user jumps to a previous state.
+ *
+ * Only the `DISPATCH` messages are handled by the {@link DevToolsBridge},
+ * with `JUMP_TO_STATE`, `JUMP_TO_ACTION`, `RESET` and `COMMIT` payload types.
+ *
+ * @category DevTools
+ */
+export interface DevToolsMessage {
+  type: string;
+  payload?: {type: string; [key: string]: any};
+  /**
+   * The JSON string of the state, e.g.: the state to jump to.
+   */
+  state?: string;
+}
+
+/**
+ * The contract for a connection to the Redux DevTools,
+ * it's the same as the one returned by `window.__REDUX_DEVTOOLS_EXTENSION__.connect()`.
+ *
+ * See {@link DevToolsBridgeConfig.connection}.
+ *
+ * @category DevTools
+ */
+export interface DevToolsConnection {
+  /**
+   * Sets the initial state, and clears the previously sent actions.
+   *
+   * @param state The state.
+   */
+  init(state: any): void;
+  /**
+   * Sends an action along with the state after the action.
+   *
+   * @param action The action.
+   * @param state The state after the action.
+   */
+  send(action: DevToolsAction, state: any): void;
+  /**
+   * Starts listening to the messages sent by the DevTools.
+   *
+   * @param listener The callback to be called with the messages.
+   * @returns A function to stop listening.
+   */
+  subscribe(listener: (message: DevToolsMessage) => void): (() => void) | void;
+  /**
+   * Optional method to stop listening to all the messages.
+   */
+  unsubscribe?(): void;
+}
+
+/**
+ * An entry in the timeline recorded by the {@link DevToolsBridge}.
+ *
+ * @category DevTools
+ */
+export interface DevToolsTimelineEntry {
+  /**
+   * The sequential id of the entry, the initial entry has id `0`.
+   */
+  id: number;
+  /**
+   * The action describing what happened.
+   */
+  action: DevToolsAction;
+  /**
+   * The values of all the tracked constructs after the action, mapped by their ids.
+   */
+  state: {[id: string]: any};
+  /**
+   * The time when the entry was recorded, in ms since the epoch.
+   */
+  timestamp: number;
+}
+
+/**
+ * Configuration options for the {@link DevToolsBridge}.
+ *
+ * @category DevTools
+ */
+export interface DevToolsBridgeConfig {
+  /**
+   * The name of the instance shown in the DevTools.
+   *
+   * @default `ActiveJS`
+   */
+  name?: string;
+  /**
+   * The connection to the DevTools. \
+   * By default, the Redux DevTools browser extension is connected to, if it's installed,
+   * otherwise the bridge only records the timeline.
+   *
+   * Use an {@link InMemoryDevToolsConnection} in tests.
+   *
+   * @default `window.__REDUX_DEVTOOLS_EXTENSION__.connect()`
+   */
+  connection?: DevToolsConnection;
+  /**
+   * An optional flag to automatically track all the Units, Systems, Actions and Clusters with an `id`,
+   * that get constructed after the bridge, see {@link Registry.changes$}. \
+   * The existing ones can be tracked using {@link DevToolsBridge.track}, e.g.: `bridge.track(...Registry.all())`.
+   *
+   * @default `true`
+   */
+  autoTrack?: boolean;
+  /**
+   * The maximum number of entries kept in the timeline, the oldest ones are dropped first.
+   *
+   * @default `50`
+   */
+  maxAge?: number;
+}
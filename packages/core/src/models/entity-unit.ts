@@ -0,0 +1,51 @@
+import {UnitConfig} from './units';
+
+/**
+ * Type of the id of an entity in an {@link EntityUnit}.
+ *
+ * @category EntityUnit
+ */
+export type EntityId = string | number;
+
+/**
+ * Type of {@link EntityUnit}'s value, the normalized collection of entities.
+ *
+ * @category EntityUnit
+ */
+export interface EntityState<E, Id extends EntityId = EntityId> {
+  /**
+   * The ids of the entities, in order.
+   */
+  ids: Id[];
+  /**
+   * The entities mapped by their ids.
+   */
+  entities: {[id: string]: E};
+}
+
+/**
+ * Configuration options for an EntityUnit.
+ *
+ * @category EntityUnit
+ */
+export interface EntityUnitConfig<E, Id extends EntityId = EntityId>
+  extends UnitConfig<EntityState<E, Id>> {
+  /**
+   * An optional function to get the id of an entity, the id should be a `string` or a `number`.
+   *
+   * @default `entity => entity.id`
+   * @category EntityUnit
+   */
+  selectId?: (entity: E) => Id;
+  /**
+   * An optional compare function to keep the {@link EntityState.ids} sorted,
+   * it works the same as the compare function of `Array.prototype.sort`. \
+   * The ids are sorted whenever entities are added or updated using the EntityUnit's methods.
+   *
+   * If not provided, the ids are kept in the order the entities were added in.
+   *
+   * @default `undefined`
+   * @category EntityUnit
+   */
+  sortComparer?: (a: E, b: E) => number;
+}
@@ -1,4 +1,5 @@
-import {DictValue} from './units';
+import {DictValue, ValidationError} from './units';
+import {EntityId, EntityState} from './entity-unit';
 import {ClearCacheOptions, DispatchOptions} from './operations';
 
 /**
@@ -6,7 +7,7 @@ import {ClearCacheOptions, DispatchOptions} from './operations';
  * @event
  * @category Common
  */
-export type BaseEvents<T> = EventReplay<T>;
+export type BaseEvents<T> = EventReplay<T> | EventDispose;
 
 /**
  * The common events that are emitted by all the Units.
@@ -26,7 +27,22 @@ export type UnitEvents<T> =
   | EventUnitClear
   | EventUnitResetValue
   | EventUnitReset
-  | EventUnitClearPersistedValue;
+  | EventUnitClearPersistedValue
+  | EventUnitPersistedValueMigrationFail
+  | EventUnitPersistedValueSync<T>
+  | EventUnitPersistFail;
+
+/**
+ * The events that are emitted by a NumUnit.
+ * @event
+ * @category NumUnit
+ */
+export type NumUnitEvents =
+  | UnitEvents<number>
+  | EventNumUnitIncrement
+  | EventNumUnitDecrement
+  | EventNumUnitMultiply
+  | EventNumUnitClamp;
 
 /**
  * The events that are triggered by a DictUnit.
@@ -59,6 +75,17 @@ export type ListUnitEvents<Item> =
   | EventListUnitReverse
   | EventListUnitSort;
 
+/**
+ * The events that are emitted by an EntityUnit.
+ * @event
+ * @category EntityUnit
+ */
+export type EntityUnitEvents<E, Id extends EntityId = EntityId> =
+  | UnitEvents<EntityState<E, Id>>
+  | EventEntityUnitUpsert<E>
+  | EventEntityUnitUpdate<E, Id>
+  | EventEntityUnitRemove<E>;
+
 // ____________________________ Common Events ____________________________ //
 // _______________________________________________________________________ //
 
@@ -74,6 +101,14 @@ export class EventReplay<T> {
   constructor(public value: T) {}
 }
 
+/**
+ * An event that gets emitted on disposal by using the `dispose` method. \
+ * It's the last event, the `events$` Observable completes right after it.
+ * @event
+ * @category Common
+ */
+export class EventDispose {}
+
 // _________________________ Common Units Events _________________________ //
 // _______________________________________________________________________ //
 
@@ -110,6 +145,24 @@ export enum DispatchFailReason {
    * The fourth reason, if {@link UnitConfig.distinctDispatchCheck} is not `false` and the dispatched value is same as current value.
    */
   DISTINCT_CHECK = 'DISTINCT_CHECK',
+  /**
+   * If the Unit has been disposed, see {@link UnitBase.dispose}. It's checked before all the other reasons.
+   */
+  DISPOSED = 'DISPOSED',
+  /**
+   * If a middleware rejected the value, see {@link SharedUnitConfig.middlewares}.
+   */
+  MIDDLEWARE = 'MIDDLEWARE',
+  /**
+   * If the value didn't pass the {@link UnitConfig.validate} check,
+   * the errors are provided as {@link EventUnitDispatchFail.errors}.
+   */
+  SCHEMA_VALIDATION = 'SCHEMA_VALIDATION',
+  /**
+   * If a NumUnit's value doesn't satisfy the {@link NumUnitConfig.min}, {@link NumUnitConfig.max},
+   * {@link NumUnitConfig.step} or {@link NumUnitConfig.precision}.
+   */
+  BOUNDS_CHECK = 'BOUNDS_CHECK',
 }
 
 /**
@@ -122,11 +175,13 @@ export class EventUnitDispatchFail<T> {
    * @param value The value that was passed to the dispatch method.
    * @param reason The reason for why the dispatch failed.
    * @param options The options that were passed to the dispatch method.
+   * @param errors The validation errors, if the reason is {@link DispatchFailReason.SCHEMA_VALIDATION}.
    */
   constructor(
     public value: T,
     public reason: DispatchFailReason,
-    public options?: DispatchOptions
+    public options?: DispatchOptions,
+    public errors?: ValidationError[]
   ) {}
 }
 
@@ -162,8 +217,9 @@ export class EventUnitJump {
    * @param steps The number of steps jumped represented as a number,
    * positive for forward navigation and negative for backwards.
    * @param newCacheIndex The new `cacheIndex` of the emitted value.
+   * @param label The label of the history entry of the emitted value, if any, see {@link UnitBase.history}.
    */
-  constructor(public steps: number, public newCacheIndex: number) {}
+  constructor(public steps: number, public newCacheIndex: number, public label?: string) {}
 }
 
 /**
@@ -223,6 +279,104 @@ export class EventUnitReset {
  */
 export class EventUnitClearPersistedValue {}
 
+/**
+ * An event that gets emitted when a persisted value with a different {@link UnitConfig.persistenceVersion}
+ * couldn't be migrated, and the {@link UnitConfig.initialValue} has been used instead.
+ * @event
+ * @category Common Units
+ */
+export class EventUnitPersistedValueMigrationFail {
+  /**
+   * @param persistedValue The persisted value that couldn't be migrated.
+   * @param persistedVersion The version the value was persisted with.
+   * @param error The error thrown by {@link UnitConfig.migrate}, if any.
+   */
+  constructor(
+    public persistedValue: any,
+    public persistedVersion: number | undefined,
+    public error?: any
+  ) {}
+}
+
+/**
+ * An event that gets emitted when a value persisted by another tab gets applied to the Unit.
+ * See {@link SharedUnitConfig.syncAcrossTabs}.
+ * @event
+ * @category Common Units
+ */
+export class EventUnitPersistedValueSync<T> {
+  /**
+   * @param value The value that was persisted by another tab.
+   */
+  constructor(public value: T) {}
+}
+
+/**
+ * An event that gets emitted when writing the value to the persistent storage fails.
+ * See {@link SharedUnitConfig.persistFailStrategy}.
+ * @event
+ * @category Common Units
+ */
+export class EventUnitPersistFail {
+  /**
+   * @param error The error thrown by the storage, e.g.: a `QuotaExceededError`.
+   * @param strategy The {@link SharedUnitConfig.persistFailStrategy} that was applied.
+   */
+  constructor(public error: any, public strategy: 'SKIP' | 'EVICT_OLDEST' | 'MEMORY') {}
+}
+
+// ____________________________ NumUnit Events _____________________________ //
+// _________________________________________________________________________ //
+
+/**
+ * An event that gets emitted on successful execution of NumUnit's `increment` method.
+ * @event
+ * @category NumUnit
+ */
+export class EventNumUnitIncrement {
+  /**
+   * @param by The amount the value got incremented by.
+   */
+  constructor(public by: number) {}
+}
+
+/**
+ * An event that gets emitted on successful execution of NumUnit's `decrement` method.
+ * @event
+ * @category NumUnit
+ */
+export class EventNumUnitDecrement {
+  /**
+   * @param by The amount the value got decremented by.
+   */
+  constructor(public by: number) {}
+}
+
+/**
+ * An event that gets emitted on successful execution of NumUnit's `multiply` method.
+ * @event
+ * @category NumUnit
+ */
+export class EventNumUnitMultiply {
+  /**
+   * @param by The number the value got multiplied by.
+   */
+  constructor(public by: number) {}
+}
+
+/**
+ * An event that gets emitted on successful execution of NumUnit's `clamp` method.
+ * @event
+ * @category NumUnit
+ */
+export class EventNumUnitClamp {
+  /**
+   * @param min The lower bound the value got clamped to, if any.
+   * @param max The upper bound the value got clamped to, if any.
+   */
+  constructor(public min: number | undefined, public max: number | undefined) {}
+}
+
 // ____________________________ DictUnit Events ____________________________ //
 // _________________________________________________________________________ //
 
@@ -417,3 +571,43 @@ export class EventListUnitReverse {}
  * @category ListUnit
  */
 export class EventListUnitSort {}
+
+// ___________________________ EntityUnit Events ___________________________ //
+// _________________________________________________________________________ //
+
+/**
+ * An event that gets emitted on successful execution of EntityUnit's `upsert` or `upsertMany` method.
+ * @event
+ * @category EntityUnit
+ */
+export class EventEntityUnitUpsert<E> {
+  /**
+   * @param entities The entities that got added or replaced.
+   */
+  constructor(public entities: E[]) {}
+}
+
+/**
+ * An event that gets emitted on successful execution of EntityUnit's `update` method.
+ * @event
+ * @category EntityUnit
+ */
+export class EventEntityUnitUpdate<E, Id extends EntityId = EntityId> {
+  /**
+   * @param id The id of the updated entity.
+   * @param changes The changes that were passed to the `update` method.
+   */
+  constructor(public id: Id, public changes: Partial<E>) {}
+}
+
+/**
+ * An event that gets emitted on successful execution of EntityUnit's `removeById` method.
+ * @event
+ * @category EntityUnit
+ */
+export class EventEntityUnitRemove<E> {
+  /**
+   * @param removedEntities The entities that got removed.
+   */
+  constructor(public removedEntities: E[]) {}
+}
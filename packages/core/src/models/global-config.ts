@@ -1,7 +1,9 @@
 import {SharedAsyncSystemConfig} from './async-system';
 import {DictValue, SharedUnitConfig} from './units';
+import {EntityState} from './entity-unit';
 import {SharedActionConfig} from './action';
 import {SharedClusterConfig} from './cluster';
+import {PersistentStorage} from './persistence';
 
 /**
  * Shared global config options for Units.
@@ -147,11 +149,12 @@ export interface GlobalConfig {
   /**
    * The Storage to be used for storing the values of persistent Units. \
    * It can be either `LocalStorage` or `SessionStorage` or any other API,
-   * that implements `Storage` API interface.
+   * that implements `Storage` API interface, \
+   * or an asynchronous store that implements the {@link AsyncStorageAdapter} interface.
    *
    * @default `localStorage`
    */
-  storage?: Storage;
+  storage?: PersistentStorage;
   /**
    * Options for development toolkit.
    */
@@ -192,6 +195,10 @@ export interface GlobalConfig {
    * Options for `GenericUnit` that override default options of `GenericUnit`.
    */
   GENERIC_UNIT?: GlobalUnitConfig<any>;
+  /**
+   * Options for `EntityUnit` that override default options of `EntityUnit`.
+   */
+  ENTITY_UNIT?: GlobalUnitConfig<EntityState<any>>;
   /**
    * Options for `AsyncSystem` that override default options of `AsyncSystem`.
    */
@@ -7,3 +7,10 @@ export * from './events';
 export * from './operations';
 export * from './utils';
 export * from './global-config';
+export * from './persistence';
+export * from './devtools';
+export * from './registry';
+export * from './snapshot';
+export * from './computed-unit';
+export * from './entity-unit';
+export * from './undo-manager';
@@ -18,6 +18,15 @@ export interface DispatchOptions {
    * Set it to `true` to replace the value in cached-values at the current {@link UnitConfig.cacheIndex}.
    */
   cacheReplace?: boolean;
+  /**
+   * A label for the history entry of the value, e.g.: `'rename'`. \
+   * It can be used to jump to the value using {@link UnitBase.jumpTo}, see {@link UnitBase.history}.
+   */
+  label?: string;
+  /**
+   * Any additional details for the history entry of the value, see {@link UnitBase.history}.
+   */
+  metadata?: any;
 }
 
 /**
@@ -0,0 +1,76 @@
+/**
+ * The contract for an asynchronous key-value store,
+ * that can be used instead of the synchronous `Storage` API for persisting the values of persistent Units, \
+ * e.g.: IndexedDB, a file on disk in Node, or any other async key-value store.
+ *
+ * All the methods should return a Promise, which should reject if the operation fails.
+ *
+ * See {@link SharedUnitConfig.storage} and {@link GlobalConfig.storage}.
+ *
+ * @category Persistence
+ */
+export interface AsyncStorageAdapter {
+  /**
+   * Retrieves the item stored under the given key.
+   *
+   * @param key The key of the item.
+   * @returns A Promise that resolves with the stored item, or `null` if there's none.
+   */
+  get(key: string): Promise<string | null>;
+  /**
+   * Stores the item under the given key, replacing the existing item, if any.
+   *
+   * @param key The key of the item.
+   * @param value The item to be stored.
+   */
+  set(key: string, value: string): Promise<void>;
+  /**
+   * Removes the item stored under the given key, if any.
+   *
+   * @param key The key of the item.
+   */
+  remove(key: string): Promise<void>;
+  /**
+   * Lists the keys of all the stored items.
+   *
+   * @returns A Promise that resolves with the keys of all the stored items.
+   */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Union type of the storages that can be used for persisting the values of persistent Units, \
+ * either the synchronous `Storage` API, like `localStorage` and `sessionStorage`,
+ * or an {@link AsyncStorageAdapter}.
+ *
+ * @category Persistence
+ */
+export type PersistentStorage = Storage | AsyncStorageAdapter;
+
+/**
+ * The contract for a transport that delivers the values persisted by other tabs (or windows, workers, etc.),
+ * to keep the persistent Units in sync across them. \
+ * e.g.: `storage` events of the `window`, or a `BroadcastChannel`.
+ *
+ * See {@link SharedUnitConfig.syncAcrossTabs}.
+ *
+ * @category Persistence
+ */
+export interface PersistenceSyncTransport {
+  /**
+   * Starts listening to the values persisted elsewhere.
+   *
+   * @param listener The callback to be called with the storage key and the newly persisted item,
+   * or `null` if the item was removed.
+   * @returns A function to stop listening.
+   */
+  listen(listener: (key: string, value: string | null) => void): () => void;
+  /**
+   * Optional method to deliver the values persisted by this tab to the other tabs. \
+   * It's not needed if the transport gets notified by the storage itself, e.g.: `storage` events.
+   *
+   * @param key The storage key.
+   * @param value The newly persisted item.
+   */
+  post?(key: string, value: string): void;
+}
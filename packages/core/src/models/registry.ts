@@ -0,0 +1,22 @@
+import {Base} from '../lib/abstract-base';
+
+/**
+ * A change in the {@link Registry}, emitted by {@link Registry.changes$}.
+ *
+ * @category Registry
+ */
+export interface RegistryChange {
+  /**
+   * REGISTER means the instance was constructed, or registered manually. \
+   * UNREGISTER means the instance was unregistered, e.g.: using {@link Registry.unregister}.
+   */
+  type: 'REGISTER' | 'UNREGISTER';
+  /**
+   * The id of the instance, i.e. {@link BaseConfig.id}.
+   */
+  id: string;
+  /**
+   * The registered or unregistered instance.
+   */
+  instance: Base<any>;
+}
@@ -0,0 +1,72 @@
+/**
+ * The serializable state of a Unit, captured by {@link snapshotState}.
+ *
+ * If the Unit has a {@link SharedUnitConfig.serialize} function,
+ * the values are captured in their serialized form.
+ *
+ * @category Snapshot
+ */
+export interface UnitSnapshot<T> {
+  /**
+   * The value of the Unit.
+   */
+  value: T;
+  /**
+   * The cached values of the Unit, see {@link UnitBase.cachedValues}.
+   */
+  cachedValues: T[];
+  /**
+   * The index of the value in the cached values, see {@link UnitBase.cacheIndex}.
+   */
+  cacheIndex: number;
+  /**
+   * Whether the Unit was frozen, see {@link UnitBase.isFrozen}.
+   */
+  isFrozen: boolean;
+}
+
+/**
+ * The serializable state of all the Units that have an id, mapped by their ids,
+ * captured by {@link snapshotState}.
+ *
+ * @category Snapshot
+ */
+export interface StateSnapshot {
+  [id: string]: UnitSnapshot<any>;
+}
+
+/**
+ * Options for {@link restoreState}.
+ *
+ * @category Snapshot
+ */
+export interface RestoreStateOptions {
+  /**
+   * A flag to restore the Units even if they're frozen,
+   * or if {@link UnitBase.wouldDispatch} would otherwise not allow the restored value.
+   *
+   * @default `false`
+   */
+  force?: boolean;
+}
+
+/**
+ * Options for transferring the state from the server to the client,
+ * see {@link renderStateScript} and {@link hydrate}.
+ *
+ * @category Snapshot
+ */
+export interface StateTransferOptions {
+  /**
+   * The name of the global variable that holds the transferred state on the client.
+   *
+   * @default `__ACTIVEJS_STATE__`
+   */
+  globalName?: string;
+  /**
+   * An optional nonce to be added to the script tag, to allow it under a Content Security Policy.
+   *
+   * @default `undefined`
+   */
+  nonce?: string;
+}
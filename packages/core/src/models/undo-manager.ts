@@ -0,0 +1,29 @@
+import {Action} from '../lib/action';
+
+/**
+ * Configuration options for the {@link UndoManager}.
+ *
+ * @category Undo
+ */
+export interface UndoManagerConfig {
+  /**
+   * The maximum number of steps that can be undone, the oldest ones are dropped first. \
+   * If it's less than `1`, the changes are not recorded at all.
+   *
+   * @default `100`
+   */
+  maxDepth?: number;
+  /**
+   * An optional Action to drive the history steps, \
+   * every dispatch of the Action starts a new step, and all the changes that follow it,
+   * until the next dispatch of the Action, become part of that step.
+   *
+   * Note: The Action should be subscribed to after the UndoManager has been created,
+   * the changes made by the subscribers that were added before it, become part of the previous step.
+   *
+   * By default, every change is a separate step, unless grouped using {@link UndoManager.group}.
+   *
+   * @default `undefined`
+   */
+  action?: Action<any>;
+}
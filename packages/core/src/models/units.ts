@@ -7,6 +7,9 @@ import {NumUnit} from '../lib/num-unit';
 import {ListUnit} from '../lib/list-unit';
 import {DictUnit} from '../lib/dict-unit';
 import {GenericUnit} from '../lib/generic-unit';
+import {EntityUnit} from '../lib/entity-unit';
+import {PersistenceSyncTransport, PersistentStorage} from './persistence';
+import {DispatchOptions} from './operations';
 
 /**
  * @param unit The Unit being used as the source observable for creating a new Observable.
@@ -15,6 +18,130 @@ import {GenericUnit} from '../lib/generic-unit';
  */
 export type UnitStreamObservableProducer<T = UnitBase<any>, R = any> = (unit: T) => Observable<R>;
 
+/**
+ * A validation error returned by {@link UnitConfig.validate}.
+ *
+ * @category Units
+ */
+export interface ValidationError {
+  /**
+   * The path to the invalid part of the value, an array of keys/indices, e.g.: `['address', 'zip']`. \
+   * An empty array means the value itself is invalid.
+   */
+  path: (string | number)[];
+  /**
+   * The description of the error.
+   */
+  message: string;
+}
+
+/**
+ * A JSON-Patch style operation, see {@link createPatches}.
+ *
+ * @category Units
+ */
+export interface Patch {
+  /**
+   * The operation, on arrays `add` and `remove` insert and remove the item at the index,
+   * shifting the items after it.
+   */
+  op: 'add' | 'remove' | 'replace';
+  /**
+   * The path to the changed part of the value, an array of keys/indices, e.g.: `['todos', 0, 'title']`. \
+   * An empty array means the value itself is replaced.
+   */
+  path: (string | number)[];
+  /**
+   * The new value at the path, it's not provided for `remove`.
+   */
+  value?: any;
+}
+
+/**
+ * The patches between two successive values, see {@link UnitBase.cachedPatches}.
+ *
+ * @category Units
+ */
+export interface CachePatches {
+  /**
+   * The patches that convert the older value to the newer value.
+   */
+  forward: Patch[];
+  /**
+   * The patches that convert the newer value back to the older value.
+   */
+  inverse: Patch[];
+}
+
+/**
+ * An entry in the history of a Unit, i.e. the details of a cached value, see {@link UnitBase.history}.
+ *
+ * @category Units
+ */
+export interface UnitHistoryEntry {
+  /**
+   * The index of the cached value, see {@link UnitBase.getCachedValue}.
+   */
+  index: number;
+  /**
+   * The label passed with the value as {@link DispatchOptions.label}, or set using {@link UnitBase.checkpoint}.
+   */
+  label?: string;
+  /**
+   * The metadata passed with the value as {@link DispatchOptions.metadata}.
+   */
+  metadata?: any;
+  /**
+   * The time at which the value got cached, in milliseconds since the epoch.
+   */
+  timestamp: number;
+}
+
+/**
+ * The context passed to a {@link DispatchMiddleware}.
+ *
+ * @category Units
+ */
+export interface DispatchMiddlewareContext<T> {
+  /**
+   * The Unit the value is being dispatched to.
+   */
+  unit: UnitBase<T>;
+  /**
+   * The value being dispatched, as passed on by the previous middleware, if any. \
+   * If a value-producer-function was dispatched, it's the value produced by it.
+   */
+  value: T;
+  /**
+   * The value of the Unit at the time of the dispatch.
+   */
+  previousValue: T;
+  /**
+   * The options the value was dispatched with.
+   */
+  options: DispatchOptions;
+}
+
+/**
+ * A function that gets called with every value dispatched to a Unit, before the dispatch-checks,
+ * see {@link SharedUnitConfig.middlewares}.
+ *
+ * It can observe the value, transform it by calling `next` with a different value,
+ * reject it by not calling `next`, or delay it by calling `next` asynchronously and returning a Promise.
+ *
+ * @param context The context of the dispatch.
+ * @param next Passes the value on to the next middleware, or to the Unit if it's the last one. \
+ * It can be called without a value to pass on the {@link DispatchMiddlewareContext.value} as is. \
+ * It returns the result of the dispatch, `undefined` if it got delayed by a later middleware.
+ * @returns Optionally, a Promise to delay the dispatch until `next` gets called, or the Promise settles.
+ *
+ * @category Units
+ */
+export type DispatchMiddleware<T = any> = (
+  context: DispatchMiddlewareContext<T>,
+  next: (value?: T) => boolean | undefined
+) => void | boolean | PromiseLike<any>;
+
 /**
  * Type of {@link DictUnit}'s value, a dictionary object.
  *
@@ -45,6 +172,41 @@ export interface SharedUnitConfig<T> {
    * @category Units
    */
   cacheSize?: number;
+  /**
+   * How the cached values are stored.
+   *
+   * - `VALUES`: Every cached value is stored as is.
+   * - `PATCHES`: Only the latest cached value is stored as is, \
+   * the older cached values are stored as the patches between the successive values (see {@link CachePatches}),
+   * and they are reconstructed when needed, e.g.: by {@link UnitBase.jump} or {@link UnitBase.getCachedValue}. \
+   * It saves memory if the values are big and the changes are small, e.g.: a long list with a big cacheSize.
+   *
+   * Either way, the patches can be accessed using {@link UnitBase.cachedPatches}.
+   *
+   * @default `VALUES`
+   * @category Units
+   */
+  historyMode?: 'VALUES' | 'PATCHES';
+  /**
+   * An optional way to merge consecutive dispatches into a single cached value,
+   * e.g.: to not create a cached value per keystroke when a StringUnit is bound to an input. \
+   * A merged dispatch replaces the latest cached value, same as {@link DispatchOptions.cacheReplace}.
+   *
+   * - `number`: A time window in ms, a dispatch gets merged if the latest cached value was cached within this time.
+   * Since the merged value is cached anew, the window restarts with every merged dispatch.
+   * - `function`: A predicate that gets called with the latest cached value, the new value,
+   * and the time elapsed since the latest cached value was cached, in ms, it should return `true` to merge.
+   *
+   * A dispatch only gets merged if the {@link UnitBase.cacheIndex} is at the latest cached value,
+   * and neither the dispatch nor the latest cached value has a label (see {@link DispatchOptions.label}). \
+   * The first cached value is never merged into, so that there's always a value to go back to.
+   *
+   * Unlike {@link UnitConfig.dispatchDebounce}, it doesn't delay the dispatch, every value still gets emitted.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  cacheCoalesce?: number | ((cachedValue: T, value: T, timeElapsed: number) => boolean);
   /**
    * An optional flag to make the Unit's value immutable.
    *
@@ -52,6 +214,20 @@ export interface SharedUnitConfig<T> {
    * @category Units
    */
   immutable?: boolean;
+  /**
+   * The strategy used to keep the value immutable, it only works if the Unit is configured to be {@link immutable}.
+   *
+   * - `DEEP_COPY`: The value gets deep-copied whenever it's accessed or dispatched, e.g.: by {@link UnitBase.value}.
+   * - `STRUCTURAL_SHARING`: The value gets deep-frozen instead of being copied, so reading it is free. \
+   * The new values share the untouched parts with the previous values, only the changed path gets copied,
+   * e.g.: by the ListUnit and DictUnit methods, or by using a value-producer-function with {@link UnitBase.dispatch},
+   * which receives a mutable draft instead of a copy, see {@link produce}. \
+   * Note: The values passed to the Unit get frozen as well.
+   *
+   * @default `DEEP_COPY`
+   * @category Units
+   */
+  immutabilityMode?: 'DEEP_COPY' | 'STRUCTURAL_SHARING';
   /**
    * An optional flag to make the Unit persistent, using LocalStorage or SessionStorage.
    * An id (see {@link BaseConfig.id}) is mandatory to make it work.
@@ -60,15 +236,152 @@ export interface SharedUnitConfig<T> {
    * @category Units
    */
   persistent?: boolean;
+  /**
+   * An optional flag to persist the cached-values and the {@link UnitBase.cacheIndex} along with the value,
+   * so that the cache navigation, e.g. {@link UnitBase.goBack}, keeps working across sessions.
+   *
+   * The restored cached-values are bounded by the {@link cacheSize}.
+   * If the persisted value gets migrated (see {@link UnitConfig.migrate}), the persisted cached-values are discarded.
+   *
+   * It only works if the Unit is configured to be persistent.
+   *
+   * @default `false`
+   * @category Units
+   */
+  persistCache?: boolean;
+  /**
+   * An optional wait-time in ms to debounce the writes to the persistent storage. \
+   * The value is only written once no new value has been dispatched for the given wait-time,
+   * which avoids re-serializing a large value on every dispatch.
+   *
+   * The pending write can be flushed immediately using {@link UnitBase.flushPersistence} or {@link flushPersistentStorage}, \
+   * in browsers, it's also flushed automatically when the page is being unloaded.
+   *
+   * If provided, {@link persistThrottle} is ignored.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  persistDebounce?: number;
+  /**
+   * An optional wait-time in ms to throttle the writes to the persistent storage. \
+   * The value is written at most once per the given wait-time, the latest value is written at the end of the wait-time.
+   *
+   * The pending write can be flushed immediately using {@link UnitBase.flushPersistence} or {@link flushPersistentStorage}, \
+   * in browsers, it's also flushed automatically when the page is being unloaded.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  persistThrottle?: number;
+  /**
+   * The strategy to be used if writing the value to the persistent storage fails,
+   * e.g.: because the storage quota has been exceeded, or the storage is not available in private mode.
+   *
+   * SKIP means the value is not persisted. \
+   * EVICT_OLDEST means the persisted values of other Units in the same storage get removed,
+   * starting with the least recently written one, until the value can be written,
+   * it only applies to the storage quota errors, other failures are treated like SKIP. \
+   * MEMORY means the Unit switches to a {@link MemoryStorage}, and keeps persisting its values there.
+   *
+   * In any case, the failure doesn't affect the dispatch, and {@link EventUnitPersistFail} is emitted.
+   *
+   * @default `SKIP`
+   * @category Units
+   */
+  persistFailStrategy?: 'SKIP' | 'EVICT_OLDEST' | 'MEMORY';
   /**
    * The Storage to be used for storing the value if the Unit is persistent. \
    * It can be either `LocalStorage` or `SessionStorage` or any other API,
-   * that implements `Storage` API interface.
+   * that implements `Storage` API interface, \
+   * or an asynchronous store that implements the {@link AsyncStorageAdapter} interface.
+   *
+   * If the storage is asynchronous, the Unit starts with its initial value,
+   * and the persisted value is restored as soon as it's retrieved, see {@link UnitBase.whenHydrated}.
    *
    * @default {@link Configuration.storage}
    * @category Units
    */
-  storage?: Storage;
+  storage?: PersistentStorage;
+  /**
+   * An optional flag to keep the value of a persistent Unit in sync across browser tabs. \
+   * When another tab persists a new value for the same Unit, i.e. same {@link UnitConfig.id},
+   * the value gets applied to this Unit as well, without writing it back to the storage, \
+   * and {@link EventUnitPersistedValueSync} is emitted.
+   *
+   * If set to `true`, the `storage` events of the `window` are listened to, see {@link StorageEventSyncTransport}. \
+   * Otherwise, you can pass a custom {@link PersistenceSyncTransport}, e.g.: one that's based on a `BroadcastChannel`.
+   *
+   * It only works if the Unit is configured to be persistent.
+   *
+   * @default `false`
+   * @category Units
+   */
+  syncAcrossTabs?: boolean | PersistenceSyncTransport;
+  /**
+   * An optional function to convert the value to a form that can be handled by `JSON.stringify`,
+   * before persisting it, and in {@link UnitBase.toJsonString}. \
+   * e.g.: to convert a `Map` into an array of entries, or a `Date` into an ISO string.
+   *
+   * It should be used along with {@link deserialize} to convert the value back to its original form.
+   *
+   * If provided, {@link EnvironmentConfig.checkSerializability} is skipped for this Unit.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  serialize?: (value: T) => any;
+  /**
+   * An optional function to convert a value produced by {@link serialize} back to its original form,
+   * when restoring the persisted value. \
+   * e.g.: to convert an array of entries back into a `Map`, or an ISO string back into a `Date`.
+   *
+   * If it throws, the persisted value is discarded in favor of the {@link UnitConfig.initialValue}.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  deserialize?: (serializedValue: any) => T;
+  /**
+   * An optional function to transform the JSON string before it's written to the persistent storage,
+   * e.g.: to encrypt, obfuscate or compress it. \
+   * The storage key stays the same, so that {@link clearPersistentStorage} can still identify and remove it.
+   *
+   * It should be used along with {@link decode} to transform it back when the value is restored.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  encode?: (jsonString: string) => string;
+  /**
+   * An optional function to transform a string produced by {@link encode} back to the original JSON string,
+   * when the persisted value is restored, e.g.: to decrypt or decompress it.
+   *
+   * If it throws, the persisted value is discarded in favor of the {@link UnitConfig.initialValue}.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  decode?: (encodedString: string) => string;
+  /**
+   * An optional list of middlewares that every dispatched value passes through,
+   * before it's checked by {@link UnitBase.wouldDispatch}, see {@link DispatchMiddleware}. \
+   * e.g.: for logging, normalization, analytics or validation.
+   *
+   * The middlewares provided in {@link GlobalConfig.UNITS} run first, followed by the ones provided to the Unit.
+   *
+   * If a middleware rejects the value, the dispatch fails with {@link DispatchFailReason.MIDDLEWARE}. \
+   * If a middleware delays the value, {@link UnitBase.dispatch} returns `undefined`.
+   *
+   * Note: Only the values dispatched using {@link UnitBase.dispatch} pass through the middlewares, \
+   * the values committed by the mutation methods, e.g.: {@link DictUnit.set}, {@link ListUnit.push},
+   * {@link EntityUnit.upsert}, {@link NumUnit.increment}, and by the cache navigation, e.g.: {@link UnitBase.goBack},
+   * don't pass through them.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  middlewares?: DispatchMiddleware<T>[];
   /**
    * An optional flag to disable/enable the distinct value check on the dispatched values.
    *
@@ -107,6 +420,59 @@ export interface UnitConfig<T> extends SharedUnitConfig<T> {
    * @category Units
    */
   initialValue?: T;
+  /**
+   * An optional version number of the shape of the persisted value,
+   * it's saved alongside the value if the Unit is persistent. \
+   * Bump it whenever the shape of the value changes in a way that the previously persisted values
+   * are not compatible anymore, and provide a {@link migrate} function to upgrade them.
+   *
+   * If the persisted version doesn't match and the migration fails, or no {@link migrate} function is provided,
+   * the persisted value is discarded in favor of the {@link initialValue},
+   * and {@link EventUnitPersistedValueMigrationFail} is emitted, see {@link UnitBase.migrationFail}.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  persistenceVersion?: number;
+  /**
+   * An optional function to upgrade a persisted value,
+   * that was saved with a different {@link persistenceVersion} than the current one. \
+   * It should return the upgraded value, or throw if the value can not be upgraded.
+   *
+   * @param oldValue The persisted value.
+   * @param oldVersion The version the value was persisted with, `undefined` if it was persisted without a version.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  migrate?: (oldValue: any, oldVersion: number | undefined) => T;
+  /**
+   * An optional list of paths to be persisted, the rest of the value is not persisted. \
+   * A path is an array of keys/indices, same as the path of a {@link Selection}, e.g.: `[['theme'], ['layout', 'sidebar']]`.
+   *
+   * The restored subset is merged over the {@link initialValue}, instead of replacing it.
+   *
+   * It's only applicable to non-primitive values, i.e. {@link DictUnit} and {@link GenericUnit},
+   * and it only works if the Unit is configured to be persistent.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  persistPaths?: (string | number)[][];
+  /**
+   * An optional list of paths to be excluded from persistence, the rest of the value is persisted. \
+   * A path is an array of keys/indices, same as the path of a {@link Selection}, e.g.: `[['session'], ['form', 'draft']]`.
+   *
+   * The excluded paths keep their {@link initialValue} when the persisted value is restored.
+   *
+   * It's only applicable to non-primitive values, i.e. {@link DictUnit} and {@link GenericUnit},
+   * and it only works if the Unit is configured to be persistent. \
+   * If used along with {@link persistPaths}, the excluded paths are removed from the included ones.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  persistExcludePaths?: (string | number)[][];
   /**
    * An optional custom check function, if provided, can allow or disallow values from getting through dispatch.
    *
@@ -114,6 +480,27 @@ export interface UnitConfig<T> extends SharedUnitConfig<T> {
    * @category Units
    */
   customDispatchCheck?: (currentValue: T, nextValue: T) => boolean;
+  /**
+   * An optional function to validate the shape of the value, in addition to the type check of the Unit. \
+   * It should return the list of errors, an empty list or nothing means the value is valid.
+   *
+   * The values that don't pass the validation are not dispatched, even if the dispatch is forced,
+   * and {@link EventUnitDispatchFail} is emitted with {@link DispatchFailReason.SCHEMA_VALIDATION} and the errors. \
+   * It also applies to the values produced by the mutation methods, e.g.: {@link DictUnit.set}, {@link ListUnit.push},
+   * the mutation is ignored if the resulting value is invalid.
+   *
+   * It also applies to the {@link initialValue}, and to the restored values, e.g.: the persisted value,
+   * the invalid ones are discarded, so that a corrupted storage doesn't break the Unit.
+   *
+   * Note: The default value, e.g.: `{}` for a DictUnit, is not validated, \
+   * it's used as is if the {@link initialValue} is invalid or not provided, and by {@link UnitBase.clearValue}.
+   *
+   * If it throws, the value is considered invalid, with the thrown error's message as the error.
+   *
+   * @default `undefined`
+   * @category Units
+   */
+  validate?: (value: T) => ValidationError[] | void;
   /**
    * Set it to `true` to debounce the dispatch method.
    * If set it to `true` the default wait-time is 200ms,
@@ -137,6 +524,52 @@ export interface UnitConfig<T> extends SharedUnitConfig<T> {
   dispatchDebounceMode?: 'START' | 'END' | 'BOTH';
 }
 
+/**
+ * Configuration options for a NumUnit.
+ *
+ * The values that don't satisfy the {@link min}, {@link max}, {@link step} and {@link precision} options
+ * are not dispatched, even if the dispatch is forced,
+ * and {@link EventUnitDispatchFail} is emitted with {@link DispatchFailReason.BOUNDS_CHECK}. \
+ * It also applies to the {@link initialValue}, and to the restored values, e.g.: the persisted value.
+ * If the default value `0` doesn't satisfy them, the nearest value that does is used instead.
+ *
+ * @category Units
+ */
+export interface NumUnitConfig extends UnitConfig<number> {
+  /**
+   * The minimum allowed value, inclusive.
+   *
+   * @default `undefined`
+   * @category NumUnit
+   */
+  min?: number;
+  /**
+   * The maximum allowed value, inclusive.
+   *
+   * @default `undefined`
+   * @category NumUnit
+   */
+  max?: number;
+  /**
+   * A positive number that the value has to be a multiple of, counting from the {@link min} if provided,
+   * e.g.: with `min: 1` and `step: 2`, the allowed values are `1`, `3`, `5`, etc. \
+   * It's also the default amount for {@link NumUnit.increment} and {@link NumUnit.decrement}.
+   *
+   * @default `undefined`
+   * @category NumUnit
+   */
+  step?: number;
+  /**
+   * The maximum number of digits allowed after the decimal point, from `0` to `100`. \
+   * The results of the NumUnit's arithmetic methods, e.g.: {@link NumUnit.increment},
+   * get rounded to it, to avoid floating point errors like `0.1 + 0.2 = 0.30000000000000004`.
+   *
+   * @default `undefined`
+   * @category NumUnit
+   */
+  precision?: number;
+}
+
 /**
  * Union type of all the Units.
  *
@@ -148,7 +581,8 @@ export type Unit =
   | NumUnit
   | ListUnit<any>
   | DictUnit<any>
-  | GenericUnit<any>;
+  | GenericUnit<any>
+  | EntityUnit<any>;
 
 /**
  * @internal please do not use.
@@ -12,7 +12,9 @@ export * from './lib/string-unit';
 export * from './lib/num-unit';
 export * from './lib/list-unit';
 export * from './lib/dict-unit';
+export * from './lib/entity-unit';
 export * from './lib/selection';
+export * from './lib/computed-unit';
 export * from './lib/creators';
 export * from './lib/async-system';
 export * from './lib/async-system-base';
@@ -21,5 +23,18 @@ export * from './lib/action';
 export * from './lib/stream';
 export * from './models';
 export {Configuration} from './lib/configuration';
-export {clearPersistentStorage} from './lib/persistence';
+export {Registry} from './lib/registry';
+export {
+  clearPersistentStorage,
+  flushPersistentStorage,
+  MemoryStorage,
+  StorageEventSyncTransport,
+} from './lib/persistence';
+export {transaction, batch} from './lib/transaction';
+export {snapshotState, restoreState} from './lib/snapshot';
+export {produce} from './lib/produce';
+export {createPatches, applyPatches} from './lib/patches';
+export {serializeState, renderStateScript, hydrate} from './lib/ssr';
+export {UndoManager} from './lib/undo-manager';
+export {DevToolsBridge, InMemoryDevToolsConnection} from './lib/devtools';
 export {deepCopy} from './utils/funcs';
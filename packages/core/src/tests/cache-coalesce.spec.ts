@@ -0,0 +1,96 @@
+import {Configuration} from '../lib/configuration';
+import {ListUnit} from '../lib/list-unit';
+import {NumUnit} from '../lib/num-unit';
+import {StringUnit} from '../lib/string-unit';
+import {randomNumber, selectRandom, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+describe(
+  'cacheCoalesce',
+  times(10, () => {
+    const randomHistoryMode = () => selectRandom(['VALUES', 'PATCHES']) as 'VALUES' | 'PATCHES';
+
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    describe('time window', () => {
+      beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate();
+      });
+
+      afterEach(() => {
+        jasmine.clock().uninstall();
+      });
+
+      it('should merge the dispatches within the time window', () => {
+        const window = randomNumber(10, 100);
+        const unit = new StringUnit({
+          cacheSize: 10,
+          cacheCoalesce: window,
+          historyMode: randomHistoryMode(),
+        });
+        const emitSpy = createSpy();
+        unit.future$.subscribe(emitSpy);
+
+        jasmine.clock().tick(window);
+        ['a', 'ab', 'abc'].forEach(value => {
+          unit.dispatch(value);
+          jasmine.clock().tick(window - 1);
+        });
+        jasmine.clock().tick(1);
+        unit.dispatch('abc ');
+
+        expect(emitSpy).toHaveBeenCalledTimes(4);
+        expect(unit.cachedValues()).toEqual(['', 'abc', 'abc ']);
+        expect(unit.goBack()).toBe(true);
+        expect(unit.value()).toBe('abc');
+      });
+    });
+
+    it('should merge the dispatches approved by the predicate', () => {
+      const unit = new ListUnit<number>({
+        cacheSize: 10,
+        cacheCoalesce: (cachedValue, value, timeElapsed) =>
+          timeElapsed >= 0 && cachedValue.length === value.length,
+      });
+
+      unit.push(1);
+      unit.set(0, 2);
+      unit.set(0, 3);
+      unit.push(4);
+
+      expect(unit.cachedValues()).toEqual([[], [3], [3, 4]]);
+    });
+
+    it('should not merge into the first or a labelled cached value', () => {
+      const unit = new NumUnit({cacheSize: 10, cacheCoalesce: Infinity});
+
+      unit.dispatch(1);
+      unit.dispatch(2, {label: 'two'});
+      unit.dispatch(3);
+      unit.dispatch(4);
+
+      expect(unit.cachedValues()).toEqual([0, 1, 2, 4]);
+      expect(unit.history().map(({label}) => label)).toEqual([
+        undefined,
+        undefined,
+        'two',
+        undefined,
+      ]);
+    });
+
+    it('should not merge if not at the latest cached value', () => {
+      const unit = new NumUnit({cacheSize: 10, cacheCoalesce: Infinity});
+
+      unit.dispatch(1);
+      unit.dispatch(2);
+      unit.goBack();
+      unit.dispatch(3);
+
+      expect(unit.cachedValues()).toEqual([0, 3]);
+      expect(unit.cacheIndex).toBe(1);
+    });
+  })
+);
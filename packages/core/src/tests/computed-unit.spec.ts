@@ -0,0 +1,152 @@
+import {ComputedUnit, derive} from '../lib/computed-unit';
+import {Configuration} from '../lib/configuration';
+import {Action} from '../lib/action';
+import {Cluster} from '../lib/cluster';
+import {DictUnit} from '../lib/dict-unit';
+import {ListUnit} from '../lib/list-unit';
+import {NumUnit} from '../lib/num-unit';
+import {batch} from '../lib/transaction';
+import {randomNumber, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+interface Todo {
+  title: string;
+  completed: boolean;
+}
+
+describe(
+  'ComputedUnit',
+  times(10, () => {
+    beforeAll(() => {
+      Configuration.reset();
+    });
+
+    it('should derive the value synchronously', () => {
+      const numUnit = new NumUnit({initialValue: randomNumber()});
+      const action = new Action<number>({initialValue: 1});
+      const doubled = new ComputedUnit([numUnit, action], (value, factor) => value * 2 * factor);
+
+      expect(doubled.value()).toBe(numUnit.value() * 2);
+
+      numUnit.dispatch(value => value + 1);
+      action.dispatch(3);
+
+      expect(doubled.value()).toBe(numUnit.value() * 6);
+    });
+
+    it('should memoize the projection', () => {
+      const todosUnit = new ListUnit<Todo>({
+        initialValue: [{title: 'a', completed: true}],
+        immutable: true,
+      });
+      const projector = createSpy().and.callFake((todos: Todo[]) =>
+        todos.filter(todo => todo.completed)
+      );
+      const completed = new ComputedUnit([todosUnit], projector);
+
+      expect(completed.value()).toBe(completed.value());
+      expect(projector).toHaveBeenCalledTimes(1);
+
+      todosUnit.push({title: 'b', completed: false});
+
+      expect(completed.value()).toEqual([{title: 'a', completed: true}]);
+      expect(projector).toHaveBeenCalledTimes(2);
+    });
+
+    it('should memoize the projection of a Cluster', () => {
+      const numUnit = new NumUnit();
+      const cluster = new Cluster({numUnit});
+      const projector = createSpy().and.callFake(({numUnit: value}) => ({doubled: value * 2}));
+      const doubled = new ComputedUnit([cluster], projector);
+      const spy = createSpy();
+      doubled.future$.subscribe(spy);
+
+      expect(doubled.value()).toBe(doubled.value());
+      expect(doubled.value()).toEqual({doubled: 0});
+      expect(projector).toHaveBeenCalledTimes(1);
+
+      numUnit.dispatch(2);
+
+      expect(doubled.value()).toEqual({doubled: 4});
+      expect(projector).toHaveBeenCalledTimes(2);
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only emit if the projected value changes', () => {
+      const numUnit = new NumUnit();
+      const isEven = derive(numUnit, value => value % 2 === 0);
+      const spy = createSpy();
+      isEven.subscribe(spy);
+
+      numUnit.dispatch(2);
+      numUnit.dispatch(3);
+      numUnit.dispatch(5);
+      numUnit.dispatch(6);
+
+      expect(spy.calls.allArgs()).toEqual([[true], [false], [true]]);
+      expect(isEven.emitCount).toBe(3);
+    });
+
+    it('should derive from Selections and other ComputedUnits', () => {
+      const dictUnit = new DictUnit<{a: {b: number}; c: number}>({initialValue: {a: {b: 1}, c: 1}});
+      const b = derive(dictUnit.select('a', 'b'), value => value);
+      const sum = derive(b, dictUnit, (value, dict) => value + dict.c);
+      const spy = createSpy();
+      b.future$.subscribe(spy);
+
+      dictUnit.set('c', 2);
+      expect(spy).not.toHaveBeenCalled();
+      expect(sum.value()).toBe(3);
+
+      dictUnit.set('a', {b: 5});
+      expect(spy).toHaveBeenCalledWith(5);
+      expect(sum.value()).toBe(7);
+    });
+
+    it('should emit once per batch', () => {
+      const numUnit1 = new NumUnit();
+      const numUnit2 = new NumUnit();
+      const sum = derive(numUnit1, numUnit2, (a, b) => a + b);
+      const spy = createSpy();
+      sum.future$.subscribe(spy);
+
+      batch(() => {
+        numUnit1.dispatch(1);
+        numUnit2.dispatch(2);
+      });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(3);
+    });
+
+    it('should participate in a Cluster', () => {
+      const numUnit = new NumUnit();
+      const squared = derive(numUnit, value => value ** 2);
+      const cluster = new Cluster({numUnit, squared});
+      const spy = createSpy();
+      cluster.future$.subscribe(spy);
+
+      numUnit.dispatch(3);
+
+      expect(cluster.value()).toEqual({numUnit: 3, squared: 9});
+      expect(spy).toHaveBeenCalledWith({numUnit: 3, squared: 9});
+    });
+
+    it('should stop listening on dispose', () => {
+      const numUnit = new NumUnit();
+      const projector = createSpy().and.returnValue(1);
+      const computedUnit = new ComputedUnit([numUnit], projector);
+      computedUnit.dispose();
+
+      numUnit.dispatch(1);
+
+      expect(projector).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw if the sources are invalid', () => {
+      expect(() => new ComputedUnit([], () => 1)).toThrowError(TypeError);
+      expect(() => new ComputedUnit([{} as any], () => 1)).toThrowError(TypeError);
+      expect(() => new ComputedUnit([new NumUnit()], null)).toThrowError(TypeError);
+    });
+  })
+);
@@ -0,0 +1,166 @@
+import {DevToolsBridge, InMemoryDevToolsConnection} from '../lib/devtools';
+import {Configuration} from '../lib/configuration';
+import {Action} from '../lib/action';
+import {NumUnit} from '../lib/num-unit';
+import {StringUnit} from '../lib/string-unit';
+import {EventReplay, EventUnitDispatch, EventUnitJump} from '../models/events';
+import {randomNumber, randomString, times} from './utils';
+
+describe(
+  'DevToolsBridge',
+  times(10, () => {
+    beforeAll(() => {
+      Configuration.reset();
+    });
+
+    let idCounter = 0;
+    const uniqueId = () => 'devtools_' + randomString() + '_' + ++idCounter;
+
+    let connection: InMemoryDevToolsConnection;
+    let bridge: DevToolsBridge;
+
+    beforeEach(() => {
+      connection = new InMemoryDevToolsConnection();
+      bridge = new DevToolsBridge({connection});
+    });
+
+    afterEach(() => {
+      bridge.disconnect();
+    });
+
+    it('should track the instances with an id automatically', () => {
+      const id = uniqueId();
+      const numUnit = new NumUnit({id, initialValue: randomNumber()});
+      const unitWithoutId = new StringUnit();
+
+      unitWithoutId.dispatch(randomString());
+      expect(bridge.timeline().length).toBe(1);
+
+      numUnit.dispatch(numUnit.value() + 1);
+
+      expect(bridge.state()).toEqual({[id]: numUnit.value()});
+      expect(connection.sent.length).toBe(1);
+      expect(connection.sent[0].action.type).toBe(`[${id}] EventUnitDispatch`);
+      expect(connection.sent[0].action.payload).toBeInstanceOf(EventUnitDispatch);
+      expect(connection.sent[0].state).toEqual({[id]: numUnit.value()});
+    });
+
+    it('should only track explicitly if autoTrack is disabled', () => {
+      bridge.disconnect();
+      bridge = new DevToolsBridge({connection, autoTrack: false});
+      const numUnit = new NumUnit({id: uniqueId()});
+      const stringUnit = new StringUnit({id: uniqueId()});
+      bridge.track(stringUnit);
+
+      numUnit.dispatch(1);
+      stringUnit.dispatch('a');
+
+      expect(bridge.state()).toEqual({[stringUnit.config.id]: 'a'});
+      expect(connection.sent.map(({action}) => action.type)).toEqual([
+        `[${stringUnit.config.id}] EventUnitDispatch`,
+      ]);
+      expect(() => bridge.track(new NumUnit())).toThrowError(TypeError);
+    });
+
+    it('should record the events and Action dispatches into the timeline', () => {
+      const numUnit = new NumUnit({id: uniqueId(), cacheSize: 3});
+      const action = new Action<string>({id: uniqueId()});
+
+      numUnit.dispatch(1);
+      numUnit.goBack();
+      numUnit.replay();
+      action.dispatch('a');
+
+      const timeline = bridge.timeline();
+      expect(timeline.map(({id}) => id)).toEqual([0, 1, 2, 3, 4]);
+      expect(timeline[0].action.type).toBe('@@INIT');
+      expect(timeline[1].action.payload).toBeInstanceOf(EventUnitDispatch);
+      expect(timeline[2].action.payload).toBeInstanceOf(EventUnitJump);
+      expect(timeline[3].action.payload).toBeInstanceOf(EventReplay);
+      expect(timeline[4].action).toEqual({
+        type: `[${action.config.id}] ActionDispatch`,
+        payload: 'a',
+      });
+      expect(timeline[4].state).toEqual({[numUnit.config.id]: 0, [action.config.id]: 'a'});
+    });
+
+    it('should bound the timeline by maxAge', () => {
+      bridge.disconnect();
+      bridge = new DevToolsBridge({connection, maxAge: 3});
+      const numUnit = new NumUnit({id: uniqueId()});
+
+      [1, 2, 3, 4, 5].forEach(value => numUnit.dispatch(value));
+
+      expect(bridge.timeline().map(({state}) => state[numUnit.config.id])).toEqual([3, 4, 5]);
+    });
+
+    it('should time-travel using jump', () => {
+      const numUnit = new NumUnit({id: uniqueId()});
+      const stringUnit = new StringUnit({id: uniqueId()});
+      numUnit.dispatch(1);
+      stringUnit.dispatch('a');
+      numUnit.dispatch(2);
+      const timelineLength = bridge.timeline().length;
+
+      expect(bridge.jump(1)).toBe(true);
+
+      expect(numUnit.value()).toBe(1);
+      expect(stringUnit.value()).toBe('');
+      expect(bridge.timeline().length).toBe(timelineLength);
+      expect(bridge.jump(-1)).toBe(false);
+    });
+
+    it('should time-travel bypassing the debounce and the middlewares', () => {
+      const numUnit = new NumUnit({
+        id: uniqueId(),
+        dispatchDebounce: true,
+        middlewares: [(context, next) => next(context.value * 2)],
+      });
+      numUnit.dispatch(1, {bypassDebounce: true});
+      numUnit.dispatch(2, {bypassDebounce: true});
+
+      expect(bridge.jump(1)).toBe(true);
+      expect(numUnit.value()).toBe(2);
+    });
+
+    it('should time-travel on the DevTools messages', () => {
+      const numUnit = new NumUnit({id: uniqueId()});
+      numUnit.dispatch(1);
+      numUnit.dispatch(2);
+
+      connection.jumpToAction(1);
+      expect(numUnit.value()).toBe(1);
+
+      connection.dispatch({
+        type: 'DISPATCH',
+        payload: {type: 'JUMP_TO_STATE'},
+        state: JSON.stringify({[numUnit.config.id]: 5}),
+      });
+      expect(numUnit.value()).toBe(5);
+      expect(connection.sent.length).toBe(2);
+    });
+
+    it('should start over on COMMIT', () => {
+      const numUnit = new NumUnit({id: uniqueId()});
+      numUnit.dispatch(1);
+
+      connection.dispatch({type: 'DISPATCH', payload: {type: 'COMMIT'}});
+
+      expect(connection.initialState).toEqual({[numUnit.config.id]: 1});
+      expect(connection.sent.length).toBe(0);
+      expect(bridge.timeline().length).toBe(1);
+    });
+
+    it('should stop tracking on disconnect', () => {
+      const numUnit = new NumUnit({id: uniqueId()});
+      bridge.disconnect();
+
+      numUnit.dispatch(1);
+      connection.jumpToAction(0);
+
+      expect(connection.sent.length).toBe(0);
+      expect(numUnit.value()).toBe(1);
+      expect(bridge.state()).toEqual({});
+    });
+  })
+);
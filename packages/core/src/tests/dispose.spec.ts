@@ -0,0 +1,153 @@
+import {Configuration, UniqueIdsAndLocationIdMap} from '../lib/configuration';
+import {Registry} from '../lib/registry';
+import {Action} from '../lib/action';
+import {Cluster} from '../lib/cluster';
+import {AsyncSystem} from '../lib/async-system';
+import {NumUnit} from '../lib/num-unit';
+import {StringUnit} from '../lib/string-unit';
+import {KeyPrefix} from '../lib/persistence';
+import {DispatchFailReason, EventDispose, EventUnitDispatchFail} from '../models/events';
+import {randomString, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+describe(
+  'Dispose',
+  times(10, () => {
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    let idCounter = 0;
+    const uniqueId = () => 'dispose_' + randomString() + '_' + ++idCounter;
+
+    it('should complete all the Observables after the final event', () => {
+      const numUnit = new NumUnit();
+      const valueSpy = createSpy();
+      const futureSpy = createSpy();
+      const eventsSpy = createSpy();
+      const completeSpy = createSpy();
+      numUnit.subscribe({next: valueSpy, complete: completeSpy});
+      numUnit.future$.subscribe({complete: futureSpy});
+      numUnit.events$.subscribe({next: eventsSpy, complete: completeSpy});
+
+      numUnit.dispose();
+
+      expect(numUnit.isDisposed).toBe(true);
+      expect(valueSpy).toHaveBeenCalledTimes(1);
+      expect(futureSpy).toHaveBeenCalledTimes(1);
+      expect(completeSpy).toHaveBeenCalledTimes(2);
+      expect(eventsSpy).toHaveBeenCalledTimes(1);
+      expect(eventsSpy).toHaveBeenCalledWith(new EventDispose());
+
+      const lateSpy = createSpy();
+      numUnit.events$.subscribe({complete: lateSpy});
+      expect(lateSpy).toHaveBeenCalled();
+
+      numUnit.dispose();
+      expect(eventsSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail further dispatches', () => {
+      const numUnit = new NumUnit();
+      numUnit.dispose();
+
+      expect(numUnit.dispatch(1)).toBe(false);
+      expect(numUnit.value()).toBe(0);
+      expect(numUnit.isFrozen).toBe(true);
+      numUnit.unfreeze();
+      expect(numUnit.isFrozen).toBe(true);
+
+      const action = new Action<number>();
+      const actionSpy = createSpy();
+      action.subscribe(actionSpy);
+      action.dispose();
+      action.dispatch(1);
+      expect(actionSpy).toHaveBeenCalledTimes(0);
+    });
+
+    it('should emit the DISPOSED fail reason', () => {
+      const numUnit = new NumUnit();
+      const eventsSpy = createSpy();
+      numUnit.events$.subscribe(eventsSpy);
+      spyOnProperty(numUnit, 'isDisposed').and.returnValue(true);
+
+      numUnit.dispatch(1);
+
+      expect(eventsSpy).toHaveBeenCalledWith(
+        new EventUnitDispatchFail(1, DispatchFailReason.DISPOSED)
+      );
+    });
+
+    it('should free up the id', () => {
+      Configuration.set({ENVIRONMENT: {checkUniqueId: true}});
+      const id = uniqueId();
+      const numUnit = new NumUnit({id});
+      expect(() => new NumUnit({id})).toThrowError();
+
+      numUnit.dispose();
+
+      expect(Registry.get(id)).toBe(undefined);
+      expect(UniqueIdsAndLocationIdMap[id]).toBe(undefined);
+      expect(() => new NumUnit({id})).not.toThrow();
+    });
+
+    it('should not free up the id taken over by a newer instance', () => {
+      Configuration.set({ENVIRONMENT: {checkUniqueId: true}});
+      const id = uniqueId();
+      // recreated at the same location, allowed by "checkUniqueId"
+      const [numUnit, newerNumUnit] = [1, 2].map(() => new NumUnit({id}));
+      const locationId = UniqueIdsAndLocationIdMap[id];
+
+      numUnit.dispose();
+
+      expect(Registry.get(id)).toBe(newerNumUnit);
+      expect(UniqueIdsAndLocationIdMap[id]).toBe(locationId);
+      expect(() => new NumUnit({id})).toThrowError();
+
+      newerNumUnit.dispose();
+
+      expect(Registry.get(id)).toBe(undefined);
+      expect(UniqueIdsAndLocationIdMap[id]).toBe(undefined);
+    });
+
+    it('should flush the pending persistence', () => {
+      const id = uniqueId();
+      const stringUnit = new StringUnit({id, persistent: true, persistDebounce: 1000});
+      stringUnit.dispatch('a');
+
+      stringUnit.dispose();
+
+      expect(JSON.parse(localStorage.getItem(KeyPrefix + id)).value).toBe('a');
+      localStorage.removeItem(KeyPrefix + id);
+    });
+
+    it('should tear down the Cluster subscriptions', () => {
+      const numUnit = new NumUnit();
+      const cluster = new Cluster({numUnit});
+      const spy = createSpy();
+      cluster.future$.subscribe(spy);
+
+      cluster.dispose();
+      numUnit.dispatch(1);
+
+      expect(spy).toHaveBeenCalledTimes(0);
+      expect(numUnit.isDisposed).toBe(false);
+      expect(numUnit.value()).toBe(1);
+    });
+
+    it('should dispose the AsyncSystem along with its member Units', () => {
+      const asyncSystem = new AsyncSystem<string, string, string>();
+      const {queryUnit, dataUnit, errorUnit, pendingUnit} = asyncSystem;
+      const spy = createSpy();
+      asyncSystem.future$.subscribe(spy);
+
+      asyncSystem.dispose();
+
+      expect(
+        [asyncSystem, queryUnit, dataUnit, errorUnit, pendingUnit].every(c => c.isDisposed)
+      ).toBe(true);
+      expect(queryUnit.dispatch('a')).toBe(false);
+      expect(spy).toHaveBeenCalledTimes(0);
+    });
+  })
+);
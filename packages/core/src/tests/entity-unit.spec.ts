@@ -0,0 +1,187 @@
+import {EntityUnit} from '../lib/entity-unit';
+import {Configuration} from '../lib/configuration';
+import {KeyPrefix} from '../lib/persistence';
+import {EntityState} from '../models/entity-unit';
+import {
+  EventEntityUnitRemove,
+  EventEntityUnitUpdate,
+  EventEntityUnitUpsert,
+} from '../models/events';
+import {randomString, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+interface Todo {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+describe(
+  'EntityUnit',
+  times(10, () => {
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    let idCounter = 0;
+    const uniqueId = () => 'entity-unit_' + randomString() + '_' + ++idCounter;
+    const randomTodo = (): Todo => ({id: uniqueId(), title: randomString(), completed: false});
+
+    it('should start empty', () => {
+      const unit = new EntityUnit<Todo>();
+
+      expect(unit.value()).toEqual({ids: [], entities: {}});
+      expect(unit.isEmpty).toBe(true);
+      expect(unit.all()).toEqual([]);
+    });
+
+    it('should upsert the entities', () => {
+      const unit = new EntityUnit<Todo>();
+      const eventsSpy = createSpy();
+      unit.events$.subscribe(eventsSpy);
+      const [a, b, c] = [randomTodo(), randomTodo(), randomTodo()];
+
+      unit.upsert(a);
+      unit.upsertMany([b, c, null, {title: 'no id'} as Todo]);
+      unit.upsert({...a, title: 'updated'});
+
+      expect(unit.ids()).toEqual([a.id, b.id, c.id]);
+      expect(unit.length).toBe(3);
+      expect(unit.getById(a.id)).toEqual({...a, title: 'updated'});
+      expect(unit.all()).toEqual([{...a, title: 'updated'}, b, c]);
+      expect(eventsSpy).toHaveBeenCalledWith(new EventEntityUnitUpsert([b, c]));
+      expect(unit.cachedValues().length).toBe(2);
+    });
+
+    it('should update an entity', () => {
+      const todo = randomTodo();
+      const unit = new EntityUnit<Todo>({
+        initialValue: {ids: [todo.id], entities: {[todo.id]: todo}},
+      });
+      const eventsSpy = createSpy();
+      unit.events$.subscribe(eventsSpy);
+      const valueBefore = unit.rawValue();
+
+      unit.update(todo.id, {completed: true});
+      unit.update(todo.id, {id: uniqueId()});
+      unit.update(uniqueId(), {completed: true});
+
+      expect(unit.getById(todo.id)).toEqual({...todo, completed: true});
+      expect(valueBefore.entities[todo.id]).toEqual(todo);
+      expect(unit.emitCount).toBe(2);
+      expect(eventsSpy).toHaveBeenCalledTimes(1);
+      expect(eventsSpy).toHaveBeenCalledWith(new EventEntityUnitUpdate(todo.id, {completed: true}));
+
+      unit.goBack();
+      expect(unit.getById(todo.id)).toEqual(todo);
+    });
+
+    it('should remove the entities by ids', () => {
+      const unit = new EntityUnit<Todo>();
+      const [a, b, c] = [randomTodo(), randomTodo(), randomTodo()];
+      unit.upsertMany([a, b, c]);
+      const eventsSpy = createSpy();
+      unit.events$.subscribe(eventsSpy);
+
+      expect(unit.removeById(c.id, a.id, uniqueId())).toEqual([c, a]);
+      expect(unit.removeById(uniqueId())).toEqual([]);
+
+      expect(unit.ids()).toEqual([b.id]);
+      expect(unit.hasId(a.id)).toBe(false);
+      expect(unit.getById(a.id)).toBe(undefined);
+      expect(eventsSpy).toHaveBeenCalledTimes(1);
+      expect(eventsSpy).toHaveBeenCalledWith(new EventEntityUnitRemove([c, a]));
+    });
+
+    it('should use the custom id selector and sort comparer', () => {
+      interface User {
+        key: number;
+        name: string;
+      }
+      const unit = new EntityUnit<User, number>({
+        selectId: user => user.key,
+        sortComparer: (x, y) => x.name.localeCompare(y.name),
+      });
+
+      unit.upsertMany([
+        {key: 1, name: 'c'},
+        {key: 2, name: 'a'},
+        {key: 3, name: 'b'},
+      ]);
+      expect(unit.ids()).toEqual([2, 3, 1]);
+
+      unit.update(1, {name: 'A'});
+      expect(unit.ids()).toEqual([2, 1, 3]);
+      expect(unit.sorted((x, y) => y.key - x.key).map(user => user.key)).toEqual([3, 2, 1]);
+      expect(unit.ids()).toEqual([2, 1, 3]);
+    });
+
+    it('should select an entity', () => {
+      const unit = new EntityUnit<Todo>();
+      const [a, b] = [randomTodo(), randomTodo()];
+      unit.upsertMany([a, b]);
+      const spy = createSpy();
+      unit.select(a.id).asObservable().subscribe(spy);
+
+      unit.update(b.id, {completed: true});
+      unit.update(a.id, {completed: true});
+      unit.removeById(a.id);
+
+      expect(spy.calls.allArgs()).toEqual([[a], [{...a, completed: true}], [undefined]]);
+      expect(unit.select(b.id).value()).toEqual({...b, completed: true});
+    });
+
+    it('should only accept a valid state', () => {
+      const unit = new EntityUnit<Todo>();
+      const todo = randomTodo();
+      const invalidStates: any[] = [
+        [],
+        {ids: [todo.id]},
+        {ids: [todo.id], entities: {}},
+        {ids: [], entities: {[todo.id]: todo}},
+        {ids: [todo.id, todo.id], entities: {[todo.id]: todo, x: todo}},
+        {ids: [null], entities: {null: todo}},
+      ];
+
+      invalidStates.forEach(state => expect(unit.dispatch(state)).toBe(false));
+
+      const validState: EntityState<Todo> = {ids: [todo.id], entities: {[todo.id]: todo}};
+      expect(unit.dispatch(validState)).toBe(true);
+    });
+
+    it('should not work if frozen', () => {
+      const unit = new EntityUnit<Todo>();
+      const todo = randomTodo();
+      unit.upsert(todo);
+      unit.freeze();
+
+      unit.upsert(randomTodo());
+      unit.update(todo.id, {completed: true});
+
+      expect(unit.removeById(todo.id)).toEqual([]);
+      expect(unit.all()).toEqual([todo]);
+    });
+
+    it('should persist the normalized state', () => {
+      const id = uniqueId();
+      const todo = randomTodo();
+      new EntityUnit<Todo>({id, persistent: true}).upsert(todo);
+
+      const restoredUnit = new EntityUnit<Todo>({id, persistent: true});
+
+      expect(restoredUnit.getById(todo.id)).toEqual(todo);
+      localStorage.removeItem(KeyPrefix + id);
+    });
+
+    it('should not share references if immutable', () => {
+      const unit = new EntityUnit<Todo>({immutable: true});
+      const todo = randomTodo();
+
+      unit.upsert(todo);
+      todo.completed = true;
+      unit.getById(todo.id).completed = true;
+
+      expect(unit.getById(todo.id).completed).toBe(false);
+    });
+  })
+);
@@ -68,6 +68,7 @@ const globalConfigOptions: Array<keyof GlobalConfig> = [
   'BOOL_UNIT',
   'DICT_UNIT',
   'GENERIC_UNIT',
+  'ENTITY_UNIT',
   'LIST_UNIT',
   'NUM_UNIT',
   'STRING_UNIT',
@@ -0,0 +1,108 @@
+import {Configuration} from '../lib/configuration';
+import {transaction} from '../lib/transaction';
+import {DictUnit} from '../lib/dict-unit';
+import {NumUnit} from '../lib/num-unit';
+import {EventUnitJump} from '../models/events';
+import {randomString, selectRandom, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+describe(
+  'History',
+  times(10, () => {
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    const randomHistoryMode = () => selectRandom(['VALUES', 'PATCHES']) as 'VALUES' | 'PATCHES';
+
+    it('should list the history entries with their labels', () => {
+      const before = Date.now();
+      const unit = new NumUnit({cacheSize: 5, historyMode: randomHistoryMode()});
+      const metadata = {user: randomString()};
+
+      unit.dispatch(1, {label: 'one', metadata});
+      unit.dispatch(2);
+
+      const history = unit.history();
+      expect(history.map(({index, label, metadata: m}) => ({index, label, metadata: m}))).toEqual([
+        {index: 0, label: undefined, metadata: undefined},
+        {index: 1, label: 'one', metadata},
+        {index: 2, label: undefined, metadata: undefined},
+      ]);
+      expect(
+        history.every(entry => entry.timestamp >= before && entry.timestamp <= Date.now())
+      ).toBe(true);
+    });
+
+    it('should jump to the labelled value', () => {
+      const unit = new DictUnit<{a: number}>({cacheSize: 10, historyMode: randomHistoryMode()});
+      const eventsSpy = createSpy();
+      unit.events$.subscribe(eventsSpy);
+
+      unit.set('a', 1);
+      unit.checkpoint('saved');
+      unit.set('a', 2);
+      unit.dispatch({a: 3}, {label: 'three'});
+
+      expect(unit.jumpTo('saved')).toBe(true);
+      expect(unit.value()).toEqual({a: 1});
+      expect(eventsSpy).toHaveBeenCalledWith(new EventUnitJump(-2, 1, 'saved'));
+
+      expect(unit.jumpTo('saved')).toBe(false);
+      expect(unit.jumpTo(randomString())).toBe(false);
+
+      expect(unit.jumpTo('three')).toBe(true);
+      expect(unit.value()).toEqual({a: 3});
+      expect(unit.goBack()).toBe(true);
+      expect(eventsSpy).toHaveBeenCalledWith(new EventUnitJump(-1, 2, undefined));
+    });
+
+    it('should jump to the latest value with the label', () => {
+      const unit = new NumUnit({cacheSize: 10});
+
+      unit.dispatch(1, {label: 'x'});
+      unit.dispatch(2, {label: 'x'});
+      unit.dispatch(3);
+
+      expect(unit.jumpTo('x')).toBe(true);
+      expect(unit.value()).toBe(2);
+    });
+
+    it('should forget the labels along with the values', () => {
+      const unit = new NumUnit({cacheSize: 2});
+
+      unit.dispatch(1, {label: 'one'});
+      unit.dispatch(2);
+      unit.dispatch(3);
+
+      expect(unit.jumpTo('one')).toBe(false);
+
+      unit.dispatch(4, {label: 'four', cacheReplace: true});
+      expect(unit.history().map(entry => entry.label)).toEqual([undefined, 'four']);
+
+      unit.clearCache();
+      expect(unit.history()).toEqual([]);
+    });
+
+    it('should not create a checkpoint if frozen', () => {
+      const unit = new NumUnit();
+      unit.freeze();
+
+      expect(unit.checkpoint('frozen')).toBe(false);
+      expect(unit.history()[0].label).toBe(undefined);
+    });
+
+    it('should roll back the checkpoint', () => {
+      const unit = new NumUnit({historyMode: randomHistoryMode()});
+
+      expect(() =>
+        transaction(() => {
+          unit.checkpoint('start');
+          throw new Error();
+        })
+      ).toThrowError();
+
+      expect(unit.history()[0].label).toBe(undefined);
+    });
+  })
+);
@@ -0,0 +1,164 @@
+import {Configuration} from '../lib/configuration';
+import {NumUnit} from '../lib/num-unit';
+import {StringUnit} from '../lib/string-unit';
+import {GenericUnit} from '../lib/generic-unit';
+import {DictUnit} from '../lib/dict-unit';
+import {ListUnit} from '../lib/list-unit';
+import {DispatchMiddleware} from '../models/units';
+import {DispatchFailReason, EventUnitDispatchFail} from '../models/events';
+import {randomNumber, randomString, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+describe(
+  'Dispatch Middlewares',
+  times(10, () => {
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    it('should pass the context and the result of the dispatch', () => {
+      const initialValue = randomNumber();
+      const options = {cacheReplace: true};
+      const middleware = createSpy().and.callFake((context, next) => next());
+      const numUnit = new NumUnit({initialValue, middlewares: [middleware]});
+
+      expect(numUnit.dispatch(value => value + 1, options)).toBe(true);
+      expect(numUnit.dispatch(numUnit.value())).toBe(true);
+      expect(numUnit.dispatch('a' as any)).toBe(false);
+
+      expect(middleware).toHaveBeenCalledTimes(3);
+      expect(middleware.calls.argsFor(0)[0]).toEqual({
+        unit: numUnit,
+        value: initialValue + 1,
+        previousValue: initialValue,
+        options,
+      });
+      expect(numUnit.value()).toBe(initialValue + 1);
+    });
+
+    it('should run the global middlewares first, and transform the value', () => {
+      const calls: string[] = [];
+      const trim: DispatchMiddleware<string> = (context, next) => {
+        calls.push('trim');
+        return next(context.value.trim());
+      };
+      const upperCase: DispatchMiddleware<string> = (context, next) => {
+        calls.push('upperCase');
+        return next(context.value.toUpperCase());
+      };
+      Configuration.set({UNITS: {middlewares: [trim]}});
+      const stringUnit = new StringUnit({middlewares: [upperCase]});
+      const unitWithGlobalOnly = new StringUnit();
+
+      stringUnit.dispatch('  abc ');
+      unitWithGlobalOnly.dispatch(' abc ');
+
+      expect(stringUnit.value()).toBe('ABC');
+      expect(unitWithGlobalOnly.value()).toBe('abc');
+      expect(calls).toEqual(['trim', 'upperCase', 'trim']);
+    });
+
+    it('should allow transforming the value to undefined', () => {
+      const genericUnit = new GenericUnit<number>({
+        initialValue: 1,
+        middlewares: [(context, next) => next(undefined)],
+      });
+
+      genericUnit.dispatch(2);
+
+      expect(genericUnit.value()).toBe(undefined);
+    });
+
+    it('should reject the value if next is not called', () => {
+      const numUnit = new NumUnit({
+        middlewares: [(context, next) => (context.value >= 0 ? next() : undefined)],
+      });
+      const eventsSpy = createSpy();
+      numUnit.events$.subscribe(eventsSpy);
+
+      expect(numUnit.dispatch(-1)).toBe(false);
+      expect(numUnit.dispatch(1)).toBe(true);
+
+      expect(numUnit.value()).toBe(1);
+      expect(eventsSpy).toHaveBeenCalledWith(
+        new EventUnitDispatchFail(-1, DispatchFailReason.MIDDLEWARE, undefined)
+      );
+    });
+
+    it('should delay the value', async () => {
+      let dispatchResult: boolean;
+      const numUnit = new NumUnit({
+        middlewares: [
+          (context, next) =>
+            new Promise<void>(resolve =>
+              setTimeout(() => {
+                dispatchResult = next();
+                resolve();
+              })
+            ),
+        ],
+      });
+      const eventsSpy = createSpy();
+      numUnit.events$.subscribe(eventsSpy);
+
+      expect(numUnit.dispatch(1)).toBe(undefined);
+      expect(numUnit.value()).toBe(0);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(numUnit.value()).toBe(1);
+      expect(dispatchResult).toBe(true);
+      expect(eventsSpy).not.toHaveBeenCalledWith(jasmine.any(EventUnitDispatchFail));
+    });
+
+    it('should reject the value if the Promise settles without calling next', async () => {
+      const numUnit = new NumUnit({middlewares: [() => Promise.reject(new Error())]});
+      const eventsSpy = createSpy();
+      numUnit.events$.subscribe(eventsSpy);
+
+      expect(numUnit.dispatch(1)).toBe(undefined);
+      await Promise.resolve();
+
+      expect(numUnit.value()).toBe(0);
+      expect(eventsSpy).toHaveBeenCalledWith(
+        new EventUnitDispatchFail(1, DispatchFailReason.MIDDLEWARE, undefined)
+      );
+    });
+
+    it('should only pass the value on once', () => {
+      const numUnit = new NumUnit({
+        cacheSize: 5,
+        middlewares: [(context, next) => next() && next(context.value + 1)],
+      });
+
+      numUnit.dispatch(1);
+
+      expect(numUnit.cachedValues()).toEqual([0, 1]);
+    });
+
+    it('should not run for the mutation methods', () => {
+      const middleware = createSpy().and.returnValue(false);
+      const numUnit = new NumUnit({middlewares: [middleware]});
+      const listUnit = new ListUnit<number>({middlewares: [middleware]});
+      const dictUnit = new DictUnit<{a: number}>({middlewares: [middleware]});
+
+      expect(numUnit.increment()).toBe(true);
+      expect(listUnit.push(1)).toBe(1);
+      dictUnit.set('a', 1);
+
+      expect(middleware).not.toHaveBeenCalled();
+      expect(numUnit.value()).toBe(1);
+      expect(listUnit.value()).toEqual([1]);
+      expect(dictUnit.value()).toEqual({a: 1});
+    });
+
+    it('should ignore the invalid middlewares', () => {
+      const value = randomString();
+      const stringUnit = new StringUnit({middlewares: [null, 'a' as any]});
+      const unitWithInvalidList = new StringUnit({middlewares: {} as any});
+
+      expect(stringUnit.dispatch(value)).toBe(true);
+      expect(unitWithInvalidList.dispatch(value)).toBe(true);
+    });
+  })
+);
@@ -9,6 +9,15 @@ import {
   times,
 } from './utils';
 import {Configuration} from '../lib/configuration';
+import {
+  DispatchFailReason,
+  EventNumUnitClamp,
+  EventNumUnitDecrement,
+  EventNumUnitIncrement,
+  EventNumUnitMultiply,
+  EventUnitDispatchFail,
+} from '../models/events';
+import createSpy = jasmine.createSpy;
 
 describe(
   'NumUnit',
@@ -77,5 +86,172 @@ describe(
         });
       });
     });
+
+    describe('arithmetic', () => {
+      it('should increment, decrement and multiply', () => {
+        const initialValue = randomNumber(-100, 100);
+        const by = randomNumber(1, 10);
+        const unit = new NumUnit({initialValue});
+        const eventsSpy = createSpy();
+        unit.events$.subscribe(eventsSpy);
+
+        expect(unit.increment(by)).toBe(true);
+        expect(unit.value()).toBe(initialValue + by);
+        expect(unit.increment()).toBe(true);
+        expect(unit.value()).toBe(initialValue + by + 1);
+
+        expect(unit.decrement(by)).toBe(true);
+        expect(unit.decrement()).toBe(true);
+        expect(unit.value()).toBe(initialValue);
+
+        expect(unit.multiply(by)).toBe(true);
+        expect(unit.value()).toBe(initialValue * by);
+
+        expect(eventsSpy.calls.allArgs()).toEqual([
+          [new EventNumUnitIncrement(by)],
+          [new EventNumUnitIncrement(1)],
+          [new EventNumUnitDecrement(by)],
+          [new EventNumUnitDecrement(1)],
+          [new EventNumUnitMultiply(by)],
+        ]);
+      });
+
+      it('should clamp', () => {
+        const unit = new NumUnit({initialValue: 5});
+        const eventsSpy = createSpy();
+        unit.events$.subscribe(eventsSpy);
+
+        expect(unit.clamp(0, 3)).toBe(true);
+        expect(unit.value()).toBe(3);
+        expect(unit.clamp(4)).toBe(true);
+        expect(unit.value()).toBe(4);
+        expect(unit.clamp(2, 1)).toBe(false);
+        expect(unit.value()).toBe(4);
+
+        expect(eventsSpy).toHaveBeenCalledWith(new EventNumUnitClamp(0, 3));
+        expect(eventsSpy).toHaveBeenCalledWith(new EventNumUnitClamp(4, undefined));
+      });
+
+      it('should round the results to the precision', () => {
+        const unit = new NumUnit({initialValue: 0.1, precision: 2});
+
+        expect(unit.increment(0.2)).toBe(true);
+        expect(unit.value()).toBe(0.3);
+        expect(unit.multiply(1 / 3)).toBe(true);
+        expect(unit.value()).toBe(0.1);
+      });
+
+      it('should not work if frozen or the arguments are invalid', () => {
+        const unit = new NumUnit({initialValue: randomNumber()});
+        const value = unit.value();
+
+        expect(unit.increment(NaN)).toBe(false);
+        expect(unit.multiply('2' as any)).toBe(false);
+        unit.freeze();
+        expect(unit.increment()).toBe(false);
+        expect(unit.clamp(value + 1)).toBe(false);
+        expect(unit.value()).toBe(value);
+      });
+    });
+
+    describe('bounds', () => {
+      it('should not dispatch the values out of bounds', () => {
+        const unit = new NumUnit({min: 0, max: 10, step: 2});
+        const eventsSpy = createSpy();
+        unit.events$.subscribe(eventsSpy);
+        const force = randomBoolean();
+
+        expect(unit.dispatch(11, {force})).toBe(false);
+        expect(unit.dispatch(-2, {force})).toBe(false);
+        expect(unit.dispatch(3, {force})).toBe(false);
+        expect(unit.dispatch(4, {force})).toBe(true);
+        expect(unit.value()).toBe(4);
+
+        expect(eventsSpy).toHaveBeenCalledWith(
+          new EventUnitDispatchFail(11, DispatchFailReason.BOUNDS_CHECK, {force})
+        );
+        expect(eventsSpy).toHaveBeenCalledWith(
+          new EventUnitDispatchFail(3, DispatchFailReason.BOUNDS_CHECK, {force})
+        );
+      });
+
+      it('should not dispatch the non-finite values if bounded', () => {
+        const unit = new NumUnit(selectRandom([{min: 0}, {max: 0}, {step: 1}, {precision: 2}]));
+        const eventsSpy = createSpy();
+        unit.events$.subscribe(eventsSpy);
+
+        expect(unit.dispatch(Infinity)).toBe(false);
+        expect(unit.dispatch(-Infinity)).toBe(false);
+        expect(unit.dispatch(NaN)).toBe(false);
+        expect(unit.value()).toBe(0);
+        expect(eventsSpy.calls.allArgs().map(([event]) => event.reason)).toEqual([
+          DispatchFailReason.BOUNDS_CHECK,
+          DispatchFailReason.BOUNDS_CHECK,
+          DispatchFailReason.INVALID_VALUE,
+        ]);
+
+        expect(new NumUnit().dispatch(Infinity)).toBe(true);
+      });
+
+      it('should check the precision', () => {
+        const unit = new NumUnit({precision: 1});
+
+        expect(unit.wouldDispatch(0.5)).toBe(true);
+        expect(unit.wouldDispatch(0.25)).toBe(false);
+      });
+
+      it('should not go out of bounds using arithmetic', () => {
+        const unit = new NumUnit({initialValue: 9, min: 1, max: 10});
+        const eventsSpy = createSpy();
+        unit.events$.subscribe(eventsSpy);
+
+        expect(unit.increment()).toBe(true);
+        expect(unit.increment()).toBe(false);
+        expect(unit.multiply(-1)).toBe(false);
+        expect(unit.value()).toBe(10);
+
+        expect(eventsSpy.calls.allArgs()).toEqual([
+          [new EventNumUnitIncrement(1)],
+          [new EventUnitDispatchFail(11, DispatchFailReason.BOUNDS_CHECK, undefined)],
+          [new EventUnitDispatchFail(-10, DispatchFailReason.BOUNDS_CHECK, undefined)],
+        ]);
+      });
+
+      it('should apply the dispatch-checks to arithmetic', () => {
+        const unit = new NumUnit({
+          distinctDispatchCheck: true,
+          customDispatchCheck: (currentValue, nextValue) => nextValue !== 3,
+        });
+        const eventsSpy = createSpy();
+        unit.events$.subscribe(eventsSpy);
+
+        expect(unit.increment(2)).toBe(true);
+        expect(unit.increment()).toBe(false);
+        expect(unit.multiply(1)).toBe(false);
+        expect(unit.value()).toBe(2);
+
+        expect(eventsSpy.calls.allArgs().slice(1)).toEqual([
+          [new EventUnitDispatchFail(3, DispatchFailReason.CUSTOM_DISPATCH_CHECK, undefined)],
+          [new EventUnitDispatchFail(2, DispatchFailReason.DISTINCT_CHECK, undefined)],
+        ]);
+      });
+
+      it('should step from the min', () => {
+        const unit = new NumUnit({min: 1, step: 0.5});
+
+        expect(unit.value()).toBe(1);
+        expect(unit.increment()).toBe(true);
+        expect(unit.value()).toBe(1.5);
+        expect(unit.wouldDispatch(2.25)).toBe(false);
+      });
+
+      it('should fall back to the nearest value within the bounds', () => {
+        expect(new NumUnit({min: 3}).value()).toBe(3);
+        expect(new NumUnit({max: -3, step: 2}).value()).toBe(-4);
+        expect(new NumUnit({min: -3, step: 2}).value()).toBe(1);
+        expect(new NumUnit({min: 3, initialValue: 2}).value()).toBe(3);
+        expect(new NumUnit({max: 3, initialValue: 2}).value()).toBe(2);
+      });
+    });
   })
 );
@@ -0,0 +1,144 @@
+import {Configuration} from '../lib/configuration';
+import {applyPatches, createPatches} from '../lib/patches';
+import {transaction} from '../lib/transaction';
+import {DictUnit} from '../lib/dict-unit';
+import {ListUnit} from '../lib/list-unit';
+import {NumUnit} from '../lib/num-unit';
+import {randomNumber, randomString, randomValue, times} from './utils';
+
+describe(
+  'Patches',
+  times(10, () => {
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    describe('createPatches and applyPatches', () => {
+      it('should convert the values back and forth', () => {
+        const from = randomValue(3);
+        const to = randomValue(3);
+        const {forward, inverse} = createPatches(from, to);
+
+        expect(applyPatches(from, forward)).toEqual(to);
+        expect(applyPatches(to, inverse)).toEqual(from);
+      });
+
+      it('should create minimal patches', () => {
+        const items = Array.from({length: 100}, () => ({title: randomString()}));
+        const newItem = {title: randomString()};
+
+        expect(createPatches(items, [newItem, ...items])).toEqual({
+          forward: [{op: 'add', path: [0], value: newItem}],
+          inverse: [{op: 'remove', path: [0]}],
+        });
+        expect(createPatches(items, items.slice(0, -2)).forward).toEqual([
+          {op: 'remove', path: [99]},
+          {op: 'remove', path: [98]},
+        ]);
+        expect(createPatches({a: {b: 1}, c: items}, {a: {b: 2}, c: items})).toEqual({
+          forward: [{op: 'replace', path: ['a', 'b'], value: 2}],
+          inverse: [{op: 'replace', path: ['a', 'b'], value: 1}],
+        });
+        expect(createPatches(items, items)).toEqual({forward: [], inverse: []});
+      });
+
+      it('should not mutate the value', () => {
+        const value = {a: [1, 2], b: {c: 1}};
+
+        const patchedValue = applyPatches(value, [
+          {op: 'remove', path: ['a', 0]},
+          {op: 'add', path: ['d'], value: 1},
+        ]);
+
+        expect(patchedValue).toEqual({a: [2], b: {c: 1}, d: 1} as any);
+        expect(value).toEqual({a: [1, 2], b: {c: 1}});
+        expect(patchedValue.b).toBe(value.b);
+      });
+    });
+
+    describe('historyMode PATCHES', () => {
+      it('should navigate the cache like VALUES', () => {
+        const values = Array.from({length: 10}, () => randomValue(2));
+        const patchesUnit = new DictUnit<any>({cacheSize: 5, historyMode: 'PATCHES'});
+        const valuesUnit = new DictUnit<any>({cacheSize: 5});
+
+        [patchesUnit, valuesUnit].forEach(unit => {
+          values.forEach(value => unit.dispatch({value}));
+          unit.goBack();
+          unit.jump(-2);
+          unit.dispatch({value: 1});
+          unit.goBack();
+        });
+
+        expect(patchesUnit.value()).toEqual(valuesUnit.value());
+        expect(patchesUnit.cacheIndex).toBe(valuesUnit.cacheIndex);
+        expect(patchesUnit.cachedValues()).toEqual(valuesUnit.cachedValues());
+        expect(patchesUnit.cachedPatches()).toEqual(valuesUnit.cachedPatches());
+        expect(patchesUnit.getCachedValue(0)).toEqual(valuesUnit.getCachedValue(0));
+        expect(patchesUnit.getCachedValue(10)).toBe(undefined);
+      });
+
+      it('should store the patches between the values', () => {
+        const unit = new ListUnit<number>({cacheSize: Infinity, historyMode: 'PATCHES'});
+        const items = Array.from({length: 1000}, () => randomNumber());
+
+        unit.dispatch(items);
+        unit.push(1);
+        unit.set(0, 2);
+
+        expect(unit.cachedPatches()).toEqual([
+          createPatches([], items),
+          {forward: [{op: 'add', path: [1000], value: 1}], inverse: [{op: 'remove', path: [1000]}]},
+          {
+            forward: [{op: 'replace', path: [0], value: 2}],
+            inverse: [{op: 'replace', path: [0], value: items[0]}],
+          },
+        ]);
+        expect(unit.goBack()).toBe(true);
+        expect(unit.value()).toEqual([...items, 1]);
+        expect(unit.getCachedValue(1)).toEqual(items);
+      });
+
+      it('should replace the cached value', () => {
+        const unit = new NumUnit({cacheSize: 3, historyMode: 'PATCHES'});
+        unit.dispatch(1);
+        unit.dispatch(2);
+        unit.goBack();
+
+        unit.dispatch(5, {cacheReplace: true});
+
+        expect(unit.cachedValues()).toEqual([0, 5, 2]);
+        expect(unit.goForward()).toBe(true);
+        expect(unit.value()).toBe(2);
+      });
+
+      it('should clear the cache', () => {
+        const unit = new NumUnit({cacheSize: 5, historyMode: 'PATCHES'});
+        [1, 2, 3, 4].forEach(value => unit.dispatch(value));
+
+        unit.clearCache({leaveFirst: true, leaveLast: true});
+
+        expect(unit.cachedValues()).toEqual([0, 4]);
+        expect(unit.goBack()).toBe(true);
+        expect(unit.value()).toBe(0);
+      });
+
+      it('should roll back the cache', () => {
+        const unit = new DictUnit<{a: number}>({cacheSize: 5, historyMode: 'PATCHES'});
+        unit.set('a', 1);
+
+        expect(() =>
+          transaction(() => {
+            unit.set('a', 2);
+            unit.goBack();
+            unit.set('a', 3);
+            throw new Error();
+          })
+        ).toThrowError();
+
+        expect(unit.cachedValues()).toEqual([{} as {a: number}, {a: 1}]);
+        expect(unit.value()).toEqual({a: 1});
+      });
+    });
+  })
+);
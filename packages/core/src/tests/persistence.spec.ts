@@ -1,12 +1,32 @@
 import {UnitConfig} from '../models/units';
-import {clearPersistentStorage, KeyPrefix, retrieve} from '../lib/persistence';
+import {LogLevel} from '../models/global-config';
+import {
+  clearPersistentStorage,
+  flushPersistentStorage,
+  KeyPrefix,
+  MemoryStorage,
+  retrieve,
+  StorageEventSyncTransport,
+} from '../lib/persistence';
 import {Configuration} from '../lib/configuration';
 import {UnitBase} from '../lib/abstract-unit-base';
-import {EventUnitClearPersistedValue} from '../models/events';
+import {
+  EventUnitClearPersistedValue,
+  EventUnitPersistedValueMigrationFail,
+  EventUnitPersistedValueSync,
+  EventUnitPersistFail,
+} from '../models/events';
+import {DictUnit} from '../lib/dict-unit';
+import {GenericUnit} from '../lib/generic-unit';
+import {NumUnit} from '../lib/num-unit';
 import {
   differentValue,
+  MockAsyncStorage,
   MockStorage,
+  MockSyncChannel,
+  multipleOf,
   randomBoolean,
+  randomNumber,
   randomString,
   randomUnitCtor,
   randomValidValue,
@@ -15,6 +35,7 @@ import {
   somewhatValidConfig,
   times,
 } from './utils';
+import createSpy = jasmine.createSpy;
 
 const configOptions: Array<keyof UnitConfig<any>> = [
   'id',
@@ -38,6 +59,15 @@ const testUnitPersistence = (unit: UnitBase<any>, storage = Configuration.storag
   }
 };
 
+// a valid value that's different from the Unit's current value, and survives JSON serialization
+const persistableValue = (unit: UnitBase<any>) => {
+  let value;
+  do {
+    value = randomValidValue(unit);
+  } while (value === undefined || JSON.stringify(value) === JSON.stringify(unit.value()));
+  return value;
+};
+
 describe(
   'Persistence',
   times(30, () => {
@@ -92,6 +122,16 @@ describe(
       testUnitPersistence(unit, storage);
     });
 
+    it('should expose the global async storage separately', () => {
+      expect(Configuration.asyncStorage).toBe(undefined);
+
+      const asyncStorage = new MockAsyncStorage();
+      Configuration.set({storage: asyncStorage});
+
+      expect(Configuration.asyncStorage).toBe(asyncStorage);
+      expect(Configuration.storage).toBe(localStorage);
+    });
+
     it('should be able to override specific Units storage', () => {
       const storage = randomBoolean() ? sessionStorage : mockStorage;
       createUnit({storage});
@@ -190,7 +230,7 @@ describe(
 
       allUnits.forEach(u => {
         unit = u;
-        const unitsStorage = unit.config.storage || Configuration.storage;
+        const unitsStorage = (unit.config.storage || Configuration.storage) as Storage;
         const unitsPersistedValue = unitsStorage.getItem(KeyPrefix + unit.config.id);
 
         if (unitsStorage === effectiveStorageToClear) {
@@ -211,5 +251,853 @@ describe(
 
       expect(retrieve(storageKey)).toBe(null);
     });
+
+    it('should restore from async storage after hydration', async () => {
+      const asyncStorage = new MockAsyncStorage();
+      unit = new unitCtor({id: randomString(), persistent: true, storage: asyncStorage});
+      await unit.whenHydrated();
+      unit.dispatch(persistableValue(unit), {force: true});
+      const persistedValue = JSON.parse(JSON.stringify(unit.value()));
+
+      expect(asyncStorage.store.get(KeyPrefix + unit.config.id)).toBe(
+        JSON.stringify({value: unit.value()})
+      );
+
+      // recreate the same kind of Unit again, to simulate window refresh
+      unit = new unitCtor({id: unit.config.id, persistent: true, storage: asyncStorage});
+      const hydratedStatuses = [];
+      unit.hydrated$.subscribe(status => hydratedStatuses.push(status));
+
+      expect(unit.isHydrated).toBe(false);
+
+      await unit.whenHydrated();
+
+      expect(unit.isHydrated).toBe(true);
+      expect(hydratedStatuses).toEqual([false, true]);
+      expect(unit.value()).toEqual(persistedValue);
+      expect(unit.cachedValues()).toEqual([persistedValue]);
+    });
+
+    it('should defer writes to async storage until hydrated', async () => {
+      const asyncStorage = new MockAsyncStorage();
+      Configuration.set({storage: asyncStorage});
+      unit = new unitCtor({id: randomString(), persistent: true});
+      await unit.whenHydrated();
+      const storageKey = KeyPrefix + unit.config.id;
+      asyncStorage.store.set(storageKey, JSON.stringify({value: unit.value()}));
+
+      unit = new unitCtor({id: unit.config.id, persistent: true});
+      unit.dispatch(persistableValue(unit), {force: true});
+      const dispatchedValue = unit.value();
+      const dispatchedValueJson = JSON.stringify({value: dispatchedValue});
+
+      expect(unit.isHydrated).toBe(false);
+      expect(asyncStorage.store.get(storageKey)).not.toBe(dispatchedValueJson);
+
+      await unit.whenHydrated();
+
+      // the value dispatched while hydrating wins over the persisted value
+      expect(unit.value()).toEqual(dispatchedValue);
+      expect(asyncStorage.store.get(storageKey)).toBe(dispatchedValueJson);
+    });
+
+    it(`should clear all Units' persisted values from an async storage`, async () => {
+      const asyncStorage = new MockAsyncStorage();
+      unit = new unitCtor({id: randomString(), persistent: true, storage: asyncStorage});
+      await unit.whenHydrated();
+
+      const randItem = {key: randomString(), val: randomString()};
+      await asyncStorage.set(randItem.key, randItem.val);
+
+      expect(asyncStorage.store.has(KeyPrefix + unit.config.id)).toBe(true);
+
+      await clearPersistentStorage(asyncStorage);
+
+      expect(asyncStorage.store.has(KeyPrefix + unit.config.id)).toBe(false);
+      expect(asyncStorage.store.get(randItem.key)).toBe(randItem.val);
+    });
+
+    it('should store the persistenceVersion alongside the value', () => {
+      const persistenceVersion = randomNumber(1, 10);
+      createUnit({persistent: true, persistenceVersion});
+
+      expect(Configuration.storage.getItem(KeyPrefix + unit.config.id)).toBe(
+        JSON.stringify({value: unit.value(), version: persistenceVersion})
+      );
+    });
+
+    it('should migrate the persisted value from an older version', () => {
+      const id = randomString();
+      const storageKey = KeyPrefix + id;
+      const oldName = randomString();
+      localStorage.setItem(storageKey, JSON.stringify({value: {name: oldName}}));
+
+      const migrate = createSpy('migrate').and.callFake((oldValue, oldVersion) => ({
+        firstName: oldValue.name,
+      }));
+      const dictUnit = new DictUnit({id, persistent: true, persistenceVersion: 2, migrate});
+
+      expect(migrate).toHaveBeenCalledTimes(1);
+      expect(migrate).toHaveBeenCalledWith({name: oldName}, undefined);
+      expect(dictUnit.value()).toEqual({firstName: oldName});
+      expect(localStorage.getItem(storageKey)).toBe(
+        JSON.stringify({value: {firstName: oldName}, version: 2})
+      );
+
+      // the migration doesn't run again once the value is upgraded
+      const sameDictUnit = new DictUnit({id, persistent: true, persistenceVersion: 2, migrate});
+      expect(migrate).toHaveBeenCalledTimes(1);
+      expect(sameDictUnit.value()).toEqual({firstName: oldName});
+    });
+
+    it('should fall back to the initialValue if the migration fails', () => {
+      const id = randomString();
+      const storageKey = KeyPrefix + id;
+      const initialValue = {firstName: randomString()};
+      localStorage.setItem(storageKey, JSON.stringify({value: {name: randomString()}, version: 1}));
+
+      const migrate = selectRandom([
+        undefined,
+        () => 'invalid value',
+        () => {
+          throw new Error();
+        },
+      ]);
+      const dictUnit = new DictUnit({
+        id,
+        persistent: true,
+        persistenceVersion: 2,
+        migrate,
+        initialValue,
+      });
+
+      expect(dictUnit.value()).toEqual(initialValue);
+      expect(localStorage.getItem(storageKey)).toBe(
+        JSON.stringify({value: initialValue, version: 2})
+      );
+    });
+
+    it('should expose the failed migration of a synchronously persisted value', () => {
+      const id = randomString();
+      const persistedValue = {name: randomString()};
+      const error = new Error();
+      localStorage.setItem(KeyPrefix + id, JSON.stringify({value: persistedValue, version: 1}));
+
+      const dictUnit = new DictUnit({
+        id,
+        persistent: true,
+        persistenceVersion: 2,
+        migrate: () => {
+          throw error;
+        },
+      });
+
+      expect(dictUnit.migrationFail).toEqual(
+        new EventUnitPersistedValueMigrationFail(persistedValue, 1, error)
+      );
+      expect(new DictUnit({id, persistent: true, persistenceVersion: 2}).migrationFail).toBe(
+        undefined
+      );
+    });
+
+    it('should emit an event if the migration of an asynchronously persisted value fails', async () => {
+      const asyncStorage = new MockAsyncStorage();
+      const id = randomString();
+      const persistedValue = {name: randomString()};
+      const error = new Error();
+      await asyncStorage.set(KeyPrefix + id, JSON.stringify({value: persistedValue, version: 1}));
+
+      const dictUnit = new DictUnit({
+        id,
+        persistent: true,
+        storage: asyncStorage,
+        persistenceVersion: 2,
+        migrate: () => {
+          throw error;
+        },
+      });
+      const eventSpy = createSpy('eventSpy');
+      dictUnit.events$.subscribe(eventSpy);
+
+      await dictUnit.whenHydrated();
+
+      expect(eventSpy).toHaveBeenCalledTimes(1);
+      expect(eventSpy).toHaveBeenCalledWith(
+        new EventUnitPersistedValueMigrationFail(persistedValue, 1, error)
+      );
+      expect(dictUnit.value()).toEqual({});
+    });
+
+    it('should sync the value persisted by other tabs', () => {
+      const channel = new MockSyncChannel();
+      const id = randomString();
+      let writesCount = 0;
+      const items = new Map<string, string>();
+      const storage = ({
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value) && ++writesCount,
+        removeItem: (key: string) => items.delete(key),
+      } as Partial<Storage>) as Storage;
+      const transportA = channel.transport();
+      const transportB = channel.transport();
+      spyOn(transportB, 'post').and.callThrough();
+
+      const tabA = new unitCtor({id, persistent: true, storage, syncAcrossTabs: transportA});
+      const tabB = new unitCtor({id, persistent: true, storage, syncAcrossTabs: transportB});
+      const eventSpy = createSpy('eventSpy');
+      tabB.events$.subscribe(eventSpy);
+      writesCount = 0;
+
+      tabA.dispatch(persistableValue(tabA), {force: true});
+
+      expect(tabB.value()).toEqual(JSON.parse(JSON.stringify(tabA.value())));
+      expect(eventSpy).toHaveBeenCalledTimes(1);
+      expect(eventSpy.calls.mostRecent().args[0]).toBeInstanceOf(EventUnitPersistedValueSync);
+      // only tabA wrote to the storage, tabB didn't echo it back
+      expect(writesCount).toBe(1);
+      expect(transportB.post).not.toHaveBeenCalled();
+      expect(storage.getItem(KeyPrefix + id)).toBe(JSON.stringify({value: tabA.value()}));
+    });
+
+    it('should ignore irrelevant sync messages', () => {
+      const channel = new MockSyncChannel();
+      unit = new unitCtor({
+        id: randomString(),
+        persistent: true,
+        syncAcrossTabs: channel.transport(),
+      });
+      const value = unit.value();
+      const eventSpy = createSpy('eventSpy');
+      unit.events$.subscribe(eventSpy);
+
+      channel.send(
+        KeyPrefix + unit.config.id + randomString(),
+        JSON.stringify({value: persistableValue(unit)})
+      );
+      channel.send(KeyPrefix + unit.config.id, null);
+      channel.send(KeyPrefix + unit.config.id, randomString());
+      channel.send(KeyPrefix + unit.config.id, JSON.stringify({value}));
+
+      unit.freeze();
+      channel.send(KeyPrefix + unit.config.id, JSON.stringify({value: persistableValue(unit)}));
+
+      expect(unit.value()).toEqual(value);
+      expect(unit.cachedValues()).toEqual([value]);
+      expect(eventSpy).not.toHaveBeenCalledWith(jasmine.any(EventUnitPersistedValueSync));
+    });
+
+    it('should not sync if not persistent', () => {
+      const channel = new MockSyncChannel();
+      unit = new unitCtor({id: randomString(), syncAcrossTabs: channel.transport()});
+
+      expect(channel.listenersCount).toBe(0);
+    });
+
+    it('should listen to storage events by default', () => {
+      const storage = selectRandom([localStorage, sessionStorage]);
+      unit = new unitCtor({id: randomString(), persistent: true, storage, syncAcrossTabs: true});
+      const jsonString = JSON.stringify({value: persistableValue(unit)});
+      const value = JSON.parse(jsonString).value;
+      const storageKey = KeyPrefix + unit.config.id;
+
+      const otherStorage = storage === localStorage ? sessionStorage : localStorage;
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: storageKey,
+          newValue: jsonString,
+          storageArea: otherStorage,
+        })
+      );
+      expect(unit.value()).not.toEqual(value);
+
+      window.dispatchEvent(
+        new StorageEvent('storage', {key: storageKey, newValue: jsonString, storageArea: storage})
+      );
+      expect(unit.value()).toEqual(value);
+    });
+
+    it('should stop listening to storage events', () => {
+      const listener = createSpy('listener');
+      const stopListening = new StorageEventSyncTransport().listen(listener);
+      const event = new StorageEvent('storage', {key: randomString(), newValue: randomString()});
+
+      window.dispatchEvent(event);
+      stopListening();
+      window.dispatchEvent(event);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(event.key, event.newValue);
+    });
+
+    describe('custom serializers', () => {
+      type RichValue = {date: Date; tags: Set<string>; map: Map<string, number>};
+      type SerializedRichValue = {date: string; tags: string[]; map: [string, number][]};
+
+      const serialize = (value: RichValue): SerializedRichValue =>
+        value && {date: value.date.toISOString(), tags: [...value.tags], map: [...value.map]};
+      const deserialize = (serializedValue: SerializedRichValue): RichValue =>
+        serializedValue && {
+          date: new Date(serializedValue.date),
+          tags: new Set(serializedValue.tags),
+          map: new Map(serializedValue.map),
+        };
+      const randomRichValue = (): RichValue => ({
+        date: new Date(randomNumber(0, Date.now())),
+        tags: new Set(multipleOf(randomString)),
+        map: new Map(multipleOf(() => [randomString(), randomNumber()] as [string, number])),
+      });
+
+      it('should round-trip non-JSON values through persistence', () => {
+        const id = randomString();
+        const value = randomRichValue();
+        const createGenericUnit = () =>
+          new GenericUnit({id, persistent: true, serialize, deserialize});
+
+        createGenericUnit().dispatch(value);
+
+        expect(localStorage.getItem(KeyPrefix + id)).toBe(
+          JSON.stringify({value: serialize(value)})
+        );
+        expect(createGenericUnit().value()).toEqual(value);
+      });
+
+      it('should be configurable globally', () => {
+        Configuration.set({UNITS: {serialize, deserialize}});
+        const id = randomString();
+        const value = randomRichValue();
+
+        unit = new GenericUnit({id, persistent: true, initialValue: value});
+        const restoredValue = new GenericUnit<RichValue>({id, persistent: true}).value();
+
+        expect(restoredValue).toEqual(value);
+        expect(restoredValue.map).toBeInstanceOf(Map);
+      });
+
+      it('should use the serializer in toJsonString', () => {
+        const value = randomRichValue();
+        const genericUnit = new GenericUnit({initialValue: value, serialize});
+
+        expect(genericUnit.toJsonString()).toBe(JSON.stringify(serialize(value)));
+      });
+
+      it('should fall back to the initialValue if deserialize fails', () => {
+        const id = randomString();
+        const initialValue = randomRichValue();
+        unit = new GenericUnit({id, persistent: true, initialValue: randomRichValue(), serialize});
+
+        const genericUnit = new GenericUnit({
+          id,
+          persistent: true,
+          initialValue,
+          deserialize: () => {
+            throw new Error();
+          },
+        });
+
+        expect(genericUnit.value()).toEqual(initialValue);
+      });
+
+      it('should skip the serializability check', () => {
+        Configuration.set({ENVIRONMENT: {checkSerializability: true}});
+
+        expect(() => new GenericUnit({initialValue: randomRichValue()})).toThrowError(TypeError);
+        expect(() => new GenericUnit({initialValue: randomRichValue(), serialize})).not.toThrow();
+      });
+    });
+
+    describe('persistCache', () => {
+      const dispatchRandomNumbers = (numUnit: NumUnit) =>
+        multipleOf(() => randomNumber(1, 100000), 10, 2).forEach(v => numUnit.dispatch(v));
+
+      it('should restore the cached values and cacheIndex', () => {
+        const config = {
+          id: randomString(),
+          persistent: true,
+          persistCache: true,
+          cacheSize: Infinity,
+        };
+        const numUnit = new NumUnit(config);
+        dispatchRandomNumbers(numUnit);
+        numUnit.jump(-randomNumber(0, numUnit.cacheIndex));
+
+        const restoredUnit = new NumUnit(config);
+
+        expect(restoredUnit.value()).toBe(numUnit.value());
+        expect(restoredUnit.cachedValues()).toEqual(numUnit.cachedValues());
+        expect(restoredUnit.cacheIndex).toBe(numUnit.cacheIndex);
+
+        expect(restoredUnit.goBack()).toBe(numUnit.goBack());
+        expect(restoredUnit.value()).toBe(numUnit.value());
+      });
+
+      it('should bound the restored cached values by cacheSize', () => {
+        const id = randomString();
+        const numUnit = new NumUnit({
+          id,
+          persistent: true,
+          persistCache: true,
+          cacheSize: Infinity,
+        });
+        dispatchRandomNumbers(numUnit);
+        numUnit.jump(-randomNumber(0, numUnit.cacheIndex));
+
+        const cacheSize = randomNumber(1, numUnit.cachedValuesCount);
+        const restoredUnit = new NumUnit({id, persistent: true, persistCache: true, cacheSize});
+
+        expect(restoredUnit.cachedValuesCount).toBe(cacheSize);
+        expect(restoredUnit.value()).toBe(numUnit.value());
+        // the newest values around the cacheIndex are kept
+        const start = Math.max(
+          0,
+          Math.min(numUnit.cacheIndex, numUnit.cachedValuesCount - cacheSize)
+        );
+        expect(restoredUnit.cachedValues()).toEqual(
+          numUnit.cachedValues().slice(start, start + cacheSize)
+        );
+        expect(restoredUnit.cacheIndex).toBe(numUnit.cacheIndex - start);
+        expect(restoredUnit.cachedValues()[restoredUnit.cacheIndex]).toBe(numUnit.value());
+      });
+
+      it('should persist the cleared cache', () => {
+        const config = {
+          id: randomString(),
+          persistent: true,
+          persistCache: true,
+          cacheSize: Infinity,
+        };
+        const numUnit = new NumUnit(config);
+        dispatchRandomNumbers(numUnit);
+        numUnit.clearCache({leaveLast: true});
+
+        const restoredUnit = new NumUnit(config);
+
+        expect(restoredUnit.cachedValues()).toEqual([numUnit.value()]);
+        expect(restoredUnit.cacheIndex).toBe(0);
+      });
+
+      it('should not restore the cached values if not enabled', () => {
+        const id = randomString();
+        const numUnit = new NumUnit({
+          id,
+          persistent: true,
+          persistCache: true,
+          cacheSize: Infinity,
+        });
+        dispatchRandomNumbers(numUnit);
+
+        const restoredUnit = new NumUnit({id, persistent: true, cacheSize: Infinity});
+
+        expect(restoredUnit.value()).toBe(numUnit.value());
+        expect(restoredUnit.cachedValues()).toEqual([numUnit.value()]);
+      });
+    });
+
+    describe('delayed writes', () => {
+      let id: string;
+      let numUnit: NumUnit;
+      const persistedValue = () => JSON.parse(localStorage.getItem(KeyPrefix + id))?.value;
+
+      beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate();
+        id = randomString();
+      });
+
+      afterEach(() => {
+        jasmine.clock().uninstall();
+      });
+
+      it('should debounce the writes', () => {
+        const persistDebounce = randomNumber(10, 1000);
+        numUnit = new NumUnit({
+          id,
+          persistent: true,
+          persistDebounce,
+        });
+
+        numUnit.dispatch(1);
+        jasmine.clock().tick(persistDebounce - 1);
+        numUnit.dispatch(2);
+        jasmine.clock().tick(persistDebounce - 1);
+
+        expect(persistedValue()).toBe(undefined);
+
+        jasmine.clock().tick(1);
+
+        expect(persistedValue()).toBe(2);
+      });
+
+      it('should throttle the writes', () => {
+        const persistThrottle = randomNumber(10, 1000);
+        numUnit = new NumUnit({
+          id,
+          persistent: true,
+          persistThrottle,
+        });
+        jasmine.clock().tick(persistThrottle);
+
+        numUnit.dispatch(1);
+        expect(persistedValue()).toBe(1);
+
+        numUnit.dispatch(2);
+        numUnit.dispatch(3);
+        jasmine.clock().tick(persistThrottle - 1);
+        expect(persistedValue()).toBe(1);
+
+        jasmine.clock().tick(1);
+        expect(persistedValue()).toBe(3);
+      });
+
+      it('should flush the pending write', () => {
+        const config = {
+          id,
+          persistent: true,
+          [selectRandom(['persistDebounce', 'persistThrottle'])]: randomNumber(10, 1000),
+        };
+        numUnit = new NumUnit(config);
+        numUnit.flushPersistence();
+        numUnit.dispatch(1);
+        numUnit.dispatch(2);
+
+        const flushUsingGlobalFn = randomBoolean();
+        if (flushUsingGlobalFn) {
+          flushPersistentStorage();
+        } else {
+          expect(numUnit.flushPersistence()).toBe(true);
+        }
+
+        expect(persistedValue()).toBe(2);
+        expect(numUnit.flushPersistence()).toBe(false);
+      });
+
+      it('should flush the pending writes when the page is being unloaded', () => {
+        numUnit = new NumUnit({
+          id,
+          persistent: true,
+          persistDebounce: randomNumber(10, 1000),
+        });
+        numUnit.dispatch(1);
+
+        window.dispatchEvent(new Event(selectRandom(['pagehide', 'beforeunload'])));
+
+        expect(persistedValue()).toBe(1);
+      });
+
+      it('should cancel the pending write on clearPersistedValue', () => {
+        const persistDebounce = randomNumber(10, 1000);
+        numUnit = new NumUnit({
+          id,
+          persistent: true,
+          persistDebounce,
+        });
+        numUnit.dispatch(1);
+
+        numUnit.clearPersistedValue();
+        jasmine.clock().tick(persistDebounce);
+
+        expect(persistedValue()).toBe(undefined);
+      });
+    });
+
+    describe('write failures', () => {
+      const quotaError = () =>
+        Object.assign(new Error('QuotaExceededError'), {name: 'QuotaExceededError'});
+
+      // a storage that can only hold a limited number of items
+      class QuotaStorage extends MemoryStorage {
+        constructor(private readonly quota: number) {
+          super();
+        }
+
+        setItem(key: string, value: string): void {
+          if (this.getItem(key) == null && this.length >= this.quota) {
+            throw quotaError();
+          }
+          super.setItem(key, value);
+        }
+      }
+
+      let eventSpy: jasmine.Spy;
+      let unitsCount = 0;
+      const createNumUnit = (config: UnitConfig<number>) => {
+        const id = randomString() + ++unitsCount;
+        const numUnit = new NumUnit({id, persistent: true, ...config});
+        numUnit.events$.subscribe(eventSpy);
+        return numUnit;
+      };
+
+      beforeEach(() => {
+        eventSpy = createSpy('eventSpy');
+      });
+
+      it('should skip the write by default', () => {
+        const storage = new QuotaStorage(0);
+        const numUnit = createNumUnit({
+          storage,
+          persistFailStrategy: selectRandom([undefined, 'SKIP']),
+        });
+
+        expect(numUnit.dispatch(1)).toBe(true);
+        expect(numUnit.value()).toBe(1);
+        expect(storage.length).toBe(0);
+        expect(eventSpy).toHaveBeenCalledWith(new EventUnitPersistFail(quotaError(), 'SKIP'));
+      });
+
+      it('should evict the least recently written values', () => {
+        const storage = new QuotaStorage(3);
+        storage.setItem(randomString(), randomString()); // doesn't belong to ActiveJS
+        const a = createNumUnit({storage});
+        const b = createNumUnit({storage});
+        a.dispatch(1); // now b is the least recently written
+
+        const c = createNumUnit({storage, persistFailStrategy: 'EVICT_OLDEST'});
+
+        expect(storage.getItem(KeyPrefix + a.config.id)).toBe(JSON.stringify({value: 1}));
+        expect(storage.getItem(KeyPrefix + b.config.id)).toBe(null);
+        expect(storage.getItem(KeyPrefix + c.config.id)).toBe(JSON.stringify({value: 0}));
+        expect(storage.length).toBe(3);
+
+        // nothing left to evict
+        const d = createNumUnit({
+          storage: new QuotaStorage(0),
+          persistFailStrategy: 'EVICT_OLDEST',
+        });
+        expect(d.dispatch(1)).toBe(true);
+        expect(eventSpy).toHaveBeenCalledWith(jasmine.any(EventUnitPersistFail));
+      });
+
+      it('should only evict on the quota errors', () => {
+        const storage = new QuotaStorage(2);
+        const a = createNumUnit({storage});
+        const b = createNumUnit({storage});
+
+        const c = createNumUnit({
+          storage,
+          persistFailStrategy: 'EVICT_OLDEST',
+          encode: () => {
+            throw new Error('encode');
+          },
+        });
+
+        expect(c.dispatch(1)).toBe(true);
+        expect(storage.getItem(KeyPrefix + a.config.id)).toBe(JSON.stringify({value: 0}));
+        expect(storage.getItem(KeyPrefix + b.config.id)).toBe(JSON.stringify({value: 0}));
+        expect(storage.length).toBe(2);
+        expect(eventSpy).toHaveBeenCalledWith(jasmine.any(EventUnitPersistFail));
+      });
+
+      it('should only evict on the async quota errors', async () => {
+        const asyncStorage = new MockAsyncStorage();
+        const a = createNumUnit({storage: asyncStorage});
+        await a.whenHydrated();
+        await new Promise(resolve => setTimeout(resolve));
+        asyncStorage.set = () => Promise.reject(new Error());
+
+        const b = createNumUnit({storage: asyncStorage, persistFailStrategy: 'EVICT_OLDEST'});
+        await b.whenHydrated();
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(asyncStorage.store.has(KeyPrefix + a.config.id)).toBe(true);
+        expect(eventSpy).toHaveBeenCalledWith(
+          new EventUnitPersistFail(new Error(), 'EVICT_OLDEST')
+        );
+      });
+
+      it('should switch to in-memory storage', () => {
+        const storage = new QuotaStorage(0);
+        const numUnit = createNumUnit({storage, persistFailStrategy: 'MEMORY'});
+        numUnit.dispatch(1);
+        numUnit.dispatch(2);
+
+        expect(storage.length).toBe(0);
+        expect(eventSpy).toHaveBeenCalledTimes(2); // EventUnitDispatch x2, the failure happened in the constructor
+
+        const fallbackStorage: MemoryStorage = (numUnit as any).fallbackStorage;
+        expect(fallbackStorage).toBeInstanceOf(MemoryStorage);
+        expect(fallbackStorage.getItem(KeyPrefix + numUnit.config.id)).toBe(
+          JSON.stringify({value: 2})
+        );
+      });
+
+      it('should handle async write failures', async () => {
+        const asyncStorage = new MockAsyncStorage();
+        asyncStorage.set = () => Promise.reject(new Error());
+        const numUnit = createNumUnit({storage: asyncStorage});
+        await numUnit.whenHydrated();
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(eventSpy).toHaveBeenCalledWith(new EventUnitPersistFail(new Error(), 'SKIP'));
+      });
+
+      it('should handle async remove failures', async () => {
+        Configuration.set({ENVIRONMENT: {logLevel: LogLevel.WARN}});
+        spyOn(console, 'warn');
+        const asyncStorage = new MockAsyncStorage();
+        asyncStorage.remove = () => Promise.reject(new Error());
+        const numUnit = createNumUnit({storage: asyncStorage});
+        await numUnit.whenHydrated();
+
+        expect(numUnit.clearPersistedValue()).toBe(true);
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(console.warn).toHaveBeenCalledWith(
+          `Couldn't clear the persisted value of Unit "${numUnit.config.id}"`,
+          new Error()
+        );
+      });
+
+      it('should finish the hydration if the async restore fails', async () => {
+        Configuration.set({ENVIRONMENT: {logLevel: LogLevel.WARN}});
+        spyOn(console, 'warn');
+        const numUnit = createNumUnit({
+          storage: new MockAsyncStorage(),
+          serialize: () => {
+            throw new Error();
+          },
+        });
+        await numUnit.whenHydrated();
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(numUnit.isHydrated).toBe(true);
+        expect(console.warn).toHaveBeenCalledWith(
+          `Couldn't restore the persisted value of Unit "${numUnit.config.id}"`,
+          new Error()
+        );
+        numUnit.dispose();
+      });
+    });
+
+    describe('encode/decode', () => {
+      const encode = (jsonString: string) => btoa(jsonString.split('').reverse().join(''));
+      const decode = (encodedString: string) => atob(encodedString).split('').reverse().join('');
+
+      it('should encode the persisted value', () => {
+        const id = randomString();
+        const value = randomNumber();
+        const useGlobalConfig = randomBoolean();
+        if (useGlobalConfig) {
+          Configuration.set({UNITS: {encode, decode}});
+        }
+        const config = useGlobalConfig
+          ? {id, persistent: true}
+          : {id, persistent: true, encode, decode};
+
+        new NumUnit(config).dispatch(value);
+
+        expect(localStorage.getItem(KeyPrefix + id)).toBe(encode(JSON.stringify({value})));
+        expect(new NumUnit(config).value()).toBe(value);
+
+        clearPersistentStorage();
+        expect(localStorage.getItem(KeyPrefix + id)).toBe(null);
+      });
+
+      it('should fall back to the initialValue if decode fails', () => {
+        const id = randomString();
+        const initialValue = randomNumber();
+        unit = new NumUnit({id, persistent: true, initialValue: randomNumber(), encode});
+
+        unit = new NumUnit({
+          id,
+          persistent: true,
+          initialValue,
+          decode: () => {
+            throw new Error();
+          },
+        });
+
+        expect(unit.value()).toBe(initialValue);
+      });
+    });
+
+    describe('selective persistence', () => {
+      const initialValue = {
+        theme: 'light',
+        layout: {sidebar: true, width: 200},
+        session: {token: 'abc'},
+      };
+
+      it('should only persist the allowed paths', () => {
+        const id = randomString() + randomNumber();
+        const config = {id, persistent: true, persistPaths: [['theme'], ['layout', 'sidebar']]};
+        const dictUnit = new DictUnit({...config, initialValue});
+
+        dictUnit.dispatch({
+          theme: 'dark',
+          layout: {sidebar: false, width: 300},
+          session: {token: 'xyz'},
+        });
+
+        expect(localStorage.getItem(KeyPrefix + id)).toBe(
+          JSON.stringify({value: {theme: 'dark', layout: {sidebar: false}}})
+        );
+        expect(new DictUnit({...config, initialValue}).value()).toEqual({
+          theme: 'dark',
+          layout: {sidebar: false, width: 200},
+          session: {token: 'abc'},
+        });
+      });
+
+      it('should not persist the excluded paths', () => {
+        const id = randomString() + randomNumber();
+        const config = {
+          id,
+          persistent: true,
+          persistExcludePaths: [['session'], ['layout', 'width']],
+        };
+        const genericUnit = new GenericUnit<object>({...config, initialValue});
+
+        genericUnit.dispatch({
+          theme: 'dark',
+          layout: {sidebar: false, width: 300},
+          session: {token: 'xyz'},
+          extra: 1,
+        });
+
+        expect(localStorage.getItem(KeyPrefix + id)).toBe(
+          JSON.stringify({value: {theme: 'dark', layout: {sidebar: false}, extra: 1}})
+        );
+        expect(
+          new GenericUnit<object>({...config, initialValue}).value()
+        ).toEqual({
+          theme: 'dark',
+          layout: {sidebar: false, width: 200},
+          session: {token: 'abc'},
+          extra: 1,
+        });
+      });
+
+      it('should keep the initialValue of the paths missing from the persisted value', () => {
+        const id = randomString() + randomNumber();
+        localStorage.setItem(KeyPrefix + id, JSON.stringify({value: {layout: {width: 500}}}));
+
+        unit = new DictUnit({
+          id,
+          persistent: true,
+          initialValue,
+          persistPaths: [['theme'], ['layout', 'width']],
+        });
+
+        expect(unit.value()).toEqual({...initialValue, layout: {sidebar: true, width: 500}});
+        expect(initialValue.layout.width).toBe(200);
+      });
+
+      it('should merge the synced value over the current value', () => {
+        const channel = new MockSyncChannel();
+        const id = randomString() + randomNumber();
+        const config = {
+          id,
+          persistent: true,
+          storage: new MemoryStorage(),
+          persistPaths: [['theme']],
+        };
+        const tabA = new DictUnit({...config, initialValue, syncAcrossTabs: channel.transport()});
+        const tabB = new DictUnit({...config, initialValue, syncAcrossTabs: channel.transport()});
+        tabB.set('session', {token: 'xyz'});
+
+        tabA.set('theme', 'dark');
+
+        expect(tabB.value()).toEqual({...initialValue, theme: 'dark', session: {token: 'xyz'}});
+      });
+    });
   })
 );
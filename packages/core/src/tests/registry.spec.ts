@@ -0,0 +1,107 @@
+import {Registry} from '../lib/registry';
+import {Configuration} from '../lib/configuration';
+import {Base} from '../lib/abstract-base';
+import {NumUnit} from '../lib/num-unit';
+import {Action} from '../lib/action';
+import {AsyncSystem} from '../lib/async-system';
+import {Cluster} from '../lib/cluster';
+import {ComputedUnit} from '../lib/computed-unit';
+import {BaseConfig} from '../models/base';
+import {RegistryChange} from '../models/registry';
+import {randomNumber, randomString, randomUnitCtor, selectRandom, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+describe(
+  'Registry',
+  times(10, () => {
+    beforeAll(() => {
+      Configuration.reset();
+    });
+
+    let idCounter = 0;
+    const uniqueId = () => 'registry_' + randomString() + '_' + ++idCounter;
+    const createInstance = (config?: BaseConfig): Base<any> =>
+      selectRandom([
+        () => new (randomUnitCtor() as any)(config),
+        () => new Action(config),
+        () => new AsyncSystem(config),
+        () => new Cluster({unit: new NumUnit()}, config),
+      ])();
+
+    it('should register the instances with an id on construction', () => {
+      const spy = createSpy();
+      const subscription = Registry.changes$.subscribe(spy);
+      const id = uniqueId();
+      const instance = createInstance({id});
+      const instanceWithoutId = createInstance();
+      subscription.unsubscribe();
+
+      expect(Registry.get(id)).toBe(instance);
+      expect(Registry.all().includes(instance)).toBe(true);
+      expect(Registry.all().includes(instanceWithoutId)).toBe(false);
+      expect(spy).toHaveBeenCalledWith({type: 'REGISTER', id, instance} as RegistryChange);
+      expect(Registry.get(uniqueId() + '_unregistered')).toBe(undefined);
+    });
+
+    it('should replace the instance with the same id', () => {
+      const id = uniqueId();
+      const oldUnit = new NumUnit({id});
+      const newUnit = new NumUnit({id});
+
+      expect(Registry.get(id)).toBe(newUnit);
+      expect(Registry.all().includes(oldUnit)).toBe(false);
+      expect(Registry.unregister(oldUnit)).toBe(false);
+      expect(Registry.get(id)).toBe(newUnit);
+    });
+
+    it('should only register the fully constructed instances', () => {
+      const spy = createSpy();
+      const subscription = Registry.changes$.subscribe(({instance}) => spy(instance.value()));
+      const numUnit = new NumUnit({initialValue: randomNumber(1, 10)});
+      const cluster = new Cluster({numUnit}, {id: uniqueId()});
+      const computedUnit = new ComputedUnit([numUnit], value => value * 2, {id: uniqueId()});
+      subscription.unsubscribe();
+
+      expect(spy.calls.allArgs()).toEqual([[{numUnit: numUnit.value()}], [numUnit.value() * 2]]);
+      expect(Registry.get(cluster.config.id)).toBe(cluster);
+      expect(Registry.get(computedUnit.config.id)).toBe(computedUnit);
+    });
+
+    it('should not register the instances that fail to construct', () => {
+      const id = uniqueId();
+      const unit = new NumUnit({id});
+      const spy = createSpy();
+      const subscription = Registry.changes$.subscribe(spy);
+
+      expect(() => new ComputedUnit([], () => 1, {id})).toThrowError(TypeError);
+      expect(() => new Cluster(null, {id})).toThrowError(TypeError);
+      subscription.unsubscribe();
+
+      expect(spy).not.toHaveBeenCalled();
+      expect(Registry.get(id)).toBe(unit);
+    });
+
+    it('should unregister', () => {
+      const spy = createSpy();
+      const unit = new NumUnit({id: uniqueId()});
+      const subscription = Registry.changes$.subscribe(spy);
+
+      expect(Registry.unregister(selectRandom([unit, unit.config.id]))).toBe(true);
+      expect(Registry.unregister(unit)).toBe(false);
+      subscription.unsubscribe();
+
+      expect(Registry.get(unit.config.id)).toBe(undefined);
+      expect(Registry.all().includes(unit)).toBe(false);
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith({
+        type: 'UNREGISTER',
+        id: unit.config.id,
+        instance: unit,
+      } as RegistryChange);
+
+      Registry.register(unit);
+      expect(Registry.get(unit.config.id)).toBe(unit);
+      expect(() => Registry.register(new NumUnit())).toThrowError(TypeError);
+    });
+  })
+);
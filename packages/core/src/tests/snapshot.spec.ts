@@ -0,0 +1,139 @@
+import {restoreState, snapshotState} from '../lib/snapshot';
+import {Configuration} from '../lib/configuration';
+import {Cluster} from '../lib/cluster';
+import {DictUnit} from '../lib/dict-unit';
+import {NumUnit} from '../lib/num-unit';
+import {StringUnit} from '../lib/string-unit';
+import {GenericUnit} from '../lib/generic-unit';
+import {randomNumber, randomString, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+describe(
+  'Snapshot',
+  times(10, () => {
+    beforeAll(() => {
+      Configuration.reset();
+    });
+
+    let idCounter = 0;
+    const uniqueId = () => 'snapshot_' + randomString() + '_' + ++idCounter;
+
+    it('should capture the state of the Units with an id', () => {
+      const numUnit = new NumUnit({id: uniqueId(), cacheSize: 5});
+      const dictUnit = new DictUnit<{[key: string]: any}>({id: uniqueId()});
+      const unitWithoutId = new StringUnit();
+      numUnit.dispatch(1);
+      numUnit.dispatch(2);
+      numUnit.goBack();
+      dictUnit.set('a', {b: 1});
+      dictUnit.freeze();
+
+      const snapshot = snapshotState();
+
+      expect(snapshot[numUnit.config.id]).toEqual({
+        value: 1,
+        cachedValues: [0, 1, 2],
+        cacheIndex: 1,
+        isFrozen: false,
+      });
+      expect(snapshot[dictUnit.config.id]).toEqual({
+        value: {a: {b: 1}},
+        cachedValues: [{}, {a: {b: 1}}],
+        cacheIndex: 1,
+        isFrozen: true,
+      });
+      expect(JSON.parse(JSON.stringify(snapshot[dictUnit.config.id]))).toEqual(
+        snapshot[dictUnit.config.id]
+      );
+      expect(snapshot[dictUnit.config.id].value).not.toBe(dictUnit.rawValue());
+      expect(unitWithoutId.config.id).toBe(undefined);
+    });
+
+    it('should restore the captured state', () => {
+      const numUnit = new NumUnit({id: uniqueId(), cacheSize: 5});
+      const stringUnit = new StringUnit({id: uniqueId()});
+      numUnit.dispatch(1);
+      numUnit.dispatch(2);
+      numUnit.goBack();
+      stringUnit.dispatch(randomString());
+      const snapshot = JSON.parse(JSON.stringify(snapshotState()));
+      const capturedStringValue = stringUnit.value();
+
+      numUnit.dispatch(5);
+      stringUnit.dispatch(capturedStringValue + randomString());
+      const spy = createSpy();
+      new Cluster({numUnit, stringUnit}).future$.subscribe(spy);
+
+      const restoredIds = restoreState(snapshot);
+
+      expect(restoredIds).toContain(numUnit.config.id);
+      expect(restoredIds).toContain(stringUnit.config.id);
+      expect(numUnit.value()).toBe(1);
+      expect(numUnit.cachedValues()).toEqual([0, 1, 2]);
+      expect(numUnit.cacheIndex).toBe(1);
+      expect(stringUnit.value()).toBe(capturedStringValue);
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should respect wouldDispatch unless forced', () => {
+      const id = uniqueId();
+      const customDispatchCheck = createSpy().and.returnValue(false);
+      const numUnit = new NumUnit({id, customDispatchCheck});
+      const frozenUnit = new NumUnit({id: uniqueId()});
+      frozenUnit.freeze();
+      const snapshot = {
+        [id]: {value: 1, cachedValues: [0, 1], cacheIndex: 1, isFrozen: true},
+        [frozenUnit.config.id]: {value: 2, cachedValues: [2], cacheIndex: 0, isFrozen: false},
+      };
+
+      expect(restoreState(snapshot)).toEqual([]);
+      expect(numUnit.value()).toBe(0);
+      expect(frozenUnit.value()).toBe(0);
+
+      expect(restoreState(snapshot, {force: true})).toEqual([id, frozenUnit.config.id]);
+      expect(numUnit.value()).toBe(1);
+      expect(numUnit.cachedValues()).toEqual([0, 1]);
+      expect(numUnit.isFrozen).toBe(true);
+      expect(frozenUnit.value()).toBe(2);
+      expect(frozenUnit.cachedValues()).toEqual([2]);
+      expect(frozenUnit.isFrozen).toBe(false);
+    });
+
+    it('should use the custom serializers', () => {
+      const id = uniqueId();
+      const serialize = (map: Map<string, number>) => map && [...map];
+      const deserialize = (entries: [string, number][]) => new Map(entries);
+      const mapUnit = new GenericUnit<Map<string, number>>({
+        id,
+        serialize,
+        deserialize,
+        initialValue: new Map(),
+      });
+      const key = randomString();
+      const value = randomNumber();
+      mapUnit.dispatch(new Map([[key, value]]));
+
+      const snapshot = JSON.parse(JSON.stringify(snapshotState()));
+      expect(snapshot[id].value).toEqual([[key, value]]);
+
+      mapUnit.dispatch(new Map());
+      restoreState(snapshot);
+
+      expect(mapUnit.value()).toEqual(new Map([[key, value]]));
+      expect(mapUnit.cachedValues()[0]).toEqual(new Map());
+    });
+
+    it('should ignore the ids without a matching Unit', () => {
+      const numUnit = new NumUnit({id: uniqueId()});
+
+      expect(
+        restoreState({
+          [uniqueId()]: {value: 1, cachedValues: [1], cacheIndex: 0, isFrozen: false},
+          [numUnit.config.id]: null,
+        })
+      ).toEqual([]);
+      expect(restoreState(null)).toEqual([]);
+      expect(numUnit.value()).toBe(0);
+    });
+  })
+);
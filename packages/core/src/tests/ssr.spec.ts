@@ -0,0 +1,112 @@
+import {hydrate, renderStateScript, serializeState} from '../lib/ssr';
+import {Configuration} from '../lib/configuration';
+import {KeyPrefix, MemoryStorage} from '../lib/persistence';
+import {DictUnit} from '../lib/dict-unit';
+import {NumUnit} from '../lib/num-unit';
+import {StringUnit} from '../lib/string-unit';
+import {StateSnapshot} from '../models/snapshot';
+import {randomNumber, randomString, times} from './utils';
+
+describe(
+  'SSR',
+  times(10, () => {
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    let idCounter = 0;
+    const uniqueId = () => 'ssr_' + randomString() + '_' + ++idCounter;
+
+    it('should fall back to in-memory storage if localStorage is not available', () => {
+      spyOnProperty(window, 'localStorage').and.throwError('SecurityError');
+
+      const storage = Configuration.storage;
+
+      expect(storage).toBeInstanceOf(MemoryStorage);
+      expect(Configuration.storage).toBe(storage);
+
+      const id = uniqueId();
+      new NumUnit({id, persistent: true}).dispatch(1);
+      expect(new NumUnit({id, persistent: true}).value()).toBe(1);
+    });
+
+    it('should serialize the state safely for a script tag', () => {
+      const id = uniqueId();
+      const value = '</script><script>alert(1)</script>';
+      const stringUnit = new StringUnit({id, initialValue: value});
+
+      const serialized = serializeState();
+
+      expect(serialized).not.toContain('</script>');
+      expect(JSON.parse(serialized)[id].value).toBe(stringUnit.value());
+    });
+
+    it('should transfer the state using the rendered script', () => {
+      const id = uniqueId();
+      const globalName = '__STATE_' + randomString() + '__';
+      const nonce = randomString();
+      const numUnit = new NumUnit({id});
+      numUnit.dispatch(5);
+
+      const script = renderStateScript({globalName, nonce});
+      expect(script.startsWith(`<script nonce="${nonce}">`)).toBe(true);
+      expect(script.endsWith('</script>')).toBe(true);
+
+      numUnit.dispatch(7);
+      // tslint:disable-next-line:function-constructor
+      new Function(script.replace(/^<script[^>]*>|<\/script>$/g, ''))();
+      hydrate(undefined, {globalName});
+      delete window[globalName];
+
+      expect(numUnit.value()).toBe(5);
+    });
+
+    it('should hydrate the Units before the persisted and initial values apply', () => {
+      const id = uniqueId();
+      const value = {a: randomNumber()};
+      const persistedValue = {a: randomNumber(), b: 1};
+      localStorage.setItem(KeyPrefix + id, JSON.stringify({value: persistedValue}));
+      const payload: StateSnapshot = {
+        [id]: {value, cachedValues: [{}, value], cacheIndex: 1, isFrozen: true},
+      };
+
+      hydrate(JSON.stringify(payload));
+      const dictUnit = new DictUnit<{[key: string]: number}>({
+        id,
+        persistent: true,
+        initialValue: {b: 2},
+      });
+
+      expect(dictUnit.value()).toEqual(value);
+      expect(dictUnit.initialValue()).toEqual(value);
+      expect(dictUnit.cachedValues()).toEqual([{}, value]);
+      expect(dictUnit.isFrozen).toBe(true);
+      expect(JSON.parse(localStorage.getItem(KeyPrefix + id)).value).toEqual(value);
+
+      // only once
+      expect(new DictUnit({id, persistent: true, initialValue: {b: 2}}).isFrozen).toBe(false);
+      localStorage.removeItem(KeyPrefix + id);
+    });
+
+    it('should dispatch the state to the existing Units', () => {
+      const numUnit = new NumUnit({id: uniqueId()});
+      numUnit.freeze();
+
+      hydrate({[numUnit.config.id]: {value: 3, cachedValues: [3], cacheIndex: 0, isFrozen: false}});
+
+      expect(numUnit.value()).toBe(3);
+      expect(numUnit.isFrozen).toBe(false);
+      expect(new NumUnit({id: numUnit.config.id}).value()).toBe(0);
+    });
+
+    it('should ignore invalid payloads', () => {
+      const id = uniqueId();
+
+      hydrate('{invalid');
+      hydrate(null);
+      hydrate({[id]: {value: 'not a number', cachedValues: [], cacheIndex: 0, isFrozen: false}});
+
+      expect(new NumUnit({id, initialValue: 2}).value()).toBe(2);
+    });
+  })
+);
@@ -0,0 +1,182 @@
+import {Configuration} from '../lib/configuration';
+import {produce} from '../lib/produce';
+import {DictUnit} from '../lib/dict-unit';
+import {ListUnit} from '../lib/list-unit';
+import {NumUnit} from '../lib/num-unit';
+import {randomNumber, randomString, times} from './utils';
+
+interface Todo {
+  title: string;
+  completed: boolean;
+}
+
+interface State {
+  todos: Todo[];
+  filter: {completed?: boolean};
+}
+
+describe(
+  'Structural Sharing',
+  times(10, () => {
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    const randomTodo = (): Todo => ({title: randomString(), completed: false});
+    const randomState = (): State => ({todos: [randomTodo(), randomTodo()], filter: {}});
+
+    describe('produce', () => {
+      it('should only copy the changed path', () => {
+        const state = randomState();
+
+        const newState = produce(state, draft => {
+          draft.todos[0].completed = true;
+        });
+
+        expect(newState).toEqual({
+          todos: [{...state.todos[0], completed: true}, state.todos[1]],
+          filter: {},
+        });
+        expect(state.todos[0].completed).toBe(false);
+        expect(newState.todos).not.toBe(state.todos);
+        expect(newState.todos[1]).toBe(state.todos[1]);
+        expect(newState.filter).toBe(state.filter);
+      });
+
+      it('should return the base if nothing changed', () => {
+        const state = Object.freeze(randomState());
+
+        expect(produce(state, draft => void draft.todos.map(todo => todo.title))).toBe(state);
+        expect(
+          produce(state, draft => {
+            draft.filter.completed = undefined;
+            delete draft.filter.completed;
+          })
+        ).toEqual(state);
+      });
+
+      it('should support the array methods', () => {
+        const list = Object.freeze([3, 1, 2]) as number[];
+        const todo = randomTodo();
+
+        expect(produce(list, draft => void draft.push(4))).toEqual([3, 1, 2, 4]);
+        expect(produce(list, draft => void draft.sort())).toEqual([1, 2, 3]);
+        expect(produce(list, draft => void draft.splice(1, 1))).toEqual([3, 2]);
+        expect(
+          produce({todos: [todo]}, draft => draft.todos.forEach(t => (t.completed = true)))
+        ).toEqual({todos: [{...todo, completed: true}]});
+        expect(list).toEqual([3, 1, 2]);
+      });
+
+      it('should use the returned value', () => {
+        const state = randomState();
+        const todo = randomTodo();
+
+        expect(produce(state, () => ({todos: [], filter: {}}))).toEqual({todos: [], filter: {}});
+        expect(produce(state, draft => ({...draft, todos: [todo, draft.todos[1]]}))).toEqual({
+          todos: [todo, state.todos[1]],
+          filter: state.filter,
+        });
+        expect(produce(5, value => value + 1)).toBe(6);
+      });
+
+      it('should revoke the drafts', () => {
+        let leakedDraft: State;
+        produce(randomState(), draft => {
+          leakedDraft = draft;
+        });
+
+        expect(() => leakedDraft.todos).toThrowError(TypeError);
+      });
+    });
+
+    describe('Units', () => {
+      it('should not copy on read', () => {
+        const unit = new DictUnit<State>({
+          initialValue: randomState(),
+          immutable: true,
+          immutabilityMode: 'STRUCTURAL_SHARING',
+        });
+
+        expect(unit.value()).toBe(unit.rawValue());
+        expect(unit.cachedValues()[0]).toBe(unit.rawValue());
+        expect(unit.select('todos', 0).value()).toBe(unit.rawValue().todos[0]);
+        expect(Object.isFrozen(unit.value().todos[0])).toBe(true);
+        expect(() => (unit.value().todos[0].completed = true)).toThrowError(TypeError);
+      });
+
+      it('should share the untouched parts on dispatch', () => {
+        const unit = new DictUnit<State>({
+          initialValue: randomState(),
+          immutable: true,
+          immutabilityMode: 'STRUCTURAL_SHARING',
+        });
+        const previousValue = unit.value();
+
+        expect(
+          unit.dispatch(state => {
+            state.todos[1].completed = true;
+            return state;
+          })
+        ).toBe(true);
+
+        const value = unit.value();
+        expect(value.todos[1].completed).toBe(true);
+        expect(value.todos[0]).toBe(previousValue.todos[0]);
+        expect(value.filter).toBe(previousValue.filter);
+        expect(previousValue.todos[1].completed).toBe(false);
+        expect(Object.isFrozen(value.todos[1])).toBe(true);
+        expect(unit.cachedValues()).toEqual([previousValue, value]);
+      });
+
+      it('should freeze the dispatched values', () => {
+        const unit = new ListUnit<Todo>({immutable: true, immutabilityMode: 'STRUCTURAL_SHARING'});
+        const todo = randomTodo();
+
+        unit.push(todo);
+        unit.dispatch(list => [...list, randomTodo()]);
+
+        expect(unit.get(0)).toBe(todo);
+        expect(Object.isFrozen(todo)).toBe(true);
+        expect(Object.isFrozen(unit.rawValue())).toBe(true);
+        expect(unit.length).toBe(2);
+      });
+
+      it('should share the untouched items in ListUnit', () => {
+        const todos = [randomTodo(), randomTodo(), randomTodo()];
+        const unit = new ListUnit<Todo>({
+          initialValue: todos,
+          immutable: true,
+          immutabilityMode: 'STRUCTURAL_SHARING',
+        });
+
+        unit.set(1, randomTodo());
+        unit.remove(0);
+
+        expect(unit.value()).toEqual([unit.get(0), todos[2]]);
+        expect(unit.get(1)).toBe(todos[2]);
+        expect(unit.slice(1)[0]).toBe(todos[2]);
+      });
+
+      it('should work with primitive values', () => {
+        const value = randomNumber();
+        const unit = new NumUnit({
+          initialValue: value,
+          immutable: true,
+          immutabilityMode: 'STRUCTURAL_SHARING',
+        });
+
+        unit.dispatch(v => v + 1);
+
+        expect(unit.value()).toBe(value + 1);
+      });
+
+      it('should deep copy by default', () => {
+        const unit = new DictUnit<State>({initialValue: randomState(), immutable: true});
+
+        expect(unit.value()).not.toBe(unit.rawValue());
+        expect(Object.isFrozen(unit.rawValue())).toBe(false);
+      });
+    });
+  })
+);
@@ -0,0 +1,229 @@
+import {batch, transaction} from '../lib/transaction';
+import {Configuration} from '../lib/configuration';
+import {Cluster} from '../lib/cluster';
+import {AsyncSystem} from '../lib/async-system';
+import {Action} from '../lib/action';
+import {NumUnit} from '../lib/num-unit';
+import {StringUnit} from '../lib/string-unit';
+import {UnitBase} from '../lib/abstract-unit-base';
+import {multipleOf, randomNumber, randomUnit, randomValidValue, randomValue, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+describe(
+  'Transaction',
+  times(20, () => {
+    beforeAll(() => {
+      Configuration.reset();
+    });
+
+    let unit: UnitBase<any>;
+
+    beforeEach(() => {
+      unit = randomUnit({cacheSize: randomNumber(1, 10)});
+    });
+
+    it('should return the value returned by the callback', () => {
+      const randValue = randomValue();
+      expect(transaction(() => randValue)).toBe(randValue);
+      expect(batch(() => randValue)).toBe(randValue);
+    });
+
+    it('should emit once with the final value', () => {
+      const spy = createSpy();
+      unit.future$.subscribe(spy);
+
+      const values = multipleOf(() => randomValidValue(unit));
+      let dispatchedCount = 0;
+
+      (randomNumber(0, 1) ? transaction : batch)(() => {
+        values.forEach(value => {
+          if (unit.dispatch(value, {force: true})) {
+            ++dispatchedCount;
+          }
+        });
+        expect(spy).not.toHaveBeenCalled();
+      });
+
+      expect(dispatchedCount).toBe(values.length);
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(unit.value());
+    });
+
+    it('should not emit if nothing changed', () => {
+      const spy = createSpy();
+      unit.future$.subscribe(spy);
+
+      transaction(() => unit.value());
+
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should emit Cluster once', () => {
+      const units = multipleOf(() => randomUnit(), 5, 2);
+      const action = new Action();
+      const cluster = new Cluster(
+        units.reduce((items, u, i) => ({...items, ['unit' + i]: u}), {action})
+      );
+      const spy = createSpy();
+      cluster.future$.subscribe(spy);
+
+      transaction(() => {
+        units.forEach(u => u.dispatch(randomValidValue(u), {force: true}));
+        action.dispatch(randomValue());
+      });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(cluster.value());
+    });
+
+    it('should emit AsyncSystem once', () => {
+      const system = new AsyncSystem();
+      const spy = createSpy();
+      system.future$.subscribe(spy);
+
+      batch(() => {
+        system.queryUnit.dispatch(randomValue(), {force: true});
+        system.dataUnit.dispatch(randomValue(), {force: true});
+      });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(system.pendingUnit.value()).toBe(false);
+      expect(spy).toHaveBeenCalledWith(system.value());
+    });
+
+    it('should rollback on error', () => {
+      const numUnit = new NumUnit({cacheSize: Infinity});
+      const stringUnit = new StringUnit();
+      numUnit.dispatch(1);
+      numUnit.dispatch(2);
+      numUnit.goBack();
+
+      const spy = createSpy();
+      const cluster = new Cluster({numUnit, stringUnit});
+      cluster.future$.subscribe(spy);
+      const error = new Error('rollback');
+
+      expect(() =>
+        transaction(() => {
+          numUnit.dispatch(3);
+          numUnit.clearCache();
+          stringUnit.dispatch('a');
+          throw error;
+        })
+      ).toThrow(error);
+
+      expect(numUnit.value()).toBe(1);
+      expect(numUnit.cachedValues()).toEqual([0, 1, 2]);
+      expect(numUnit.cacheIndex).toBe(1);
+      expect(stringUnit.value()).toBe('');
+      expect(stringUnit.cachedValues()).toEqual(['']);
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should not rollback a batch on error', () => {
+      const spy = createSpy();
+      const numUnit = new NumUnit();
+      numUnit.future$.subscribe(spy);
+
+      expect(() =>
+        batch(() => {
+          numUnit.dispatch(1);
+          numUnit.dispatch(2);
+          throw new Error();
+        })
+      ).toThrow();
+
+      expect(numUnit.value()).toBe(2);
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(2);
+    });
+
+    it('should only rollback the failed nested transaction', () => {
+      const numUnit = new NumUnit();
+      const stringUnit = new StringUnit();
+      const spy = createSpy();
+      new Cluster({numUnit, stringUnit}).future$.subscribe(spy);
+
+      transaction(() => {
+        numUnit.dispatch(1);
+        try {
+          transaction(() => {
+            numUnit.dispatch(2);
+            stringUnit.dispatch('a');
+            throw new Error();
+          });
+        } catch (e) {}
+      });
+
+      expect(numUnit.value()).toBe(1);
+      expect(stringUnit.value()).toBe('');
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith({numUnit: 1, stringUnit: ''});
+    });
+
+    it('should rollback changes made in a nested batch', () => {
+      const numUnit = new NumUnit();
+
+      expect(() =>
+        transaction(() => {
+          batch(() => numUnit.dispatch(1));
+          throw new Error();
+        })
+      ).toThrow();
+
+      expect(numUnit.value()).toBe(0);
+      expect(numUnit.cachedValues()).toEqual([0]);
+    });
+
+    it('should still emit the Actions on error', () => {
+      const action = new Action<number>();
+      const numUnit = new NumUnit();
+      const actionSpy = createSpy();
+      const clusterSpy = createSpy();
+      action.future$.subscribe(actionSpy);
+      new Cluster({action, numUnit}).future$.subscribe(clusterSpy);
+
+      expect(() =>
+        transaction(() => {
+          action.dispatch(1);
+          numUnit.dispatch(1);
+          try {
+            transaction(() => {
+              numUnit.dispatch(2);
+              throw new Error();
+            });
+          } catch (e) {}
+          action.dispatch(2);
+          throw new Error();
+        })
+      ).toThrow();
+
+      expect(action.value()).toBe(2);
+      expect(numUnit.value()).toBe(0);
+      expect(actionSpy.calls.allArgs()).toEqual([[2]]);
+      expect(clusterSpy.calls.allArgs()).toEqual([[{action: 2, numUnit: 0}]]);
+    });
+
+    it('should emit the changes made after a nested rollback on error', () => {
+      const numUnit = new NumUnit();
+      const spy = createSpy();
+      numUnit.subscribe(spy);
+
+      expect(() =>
+        batch(() => {
+          try {
+            transaction(() => {
+              numUnit.dispatch(1);
+              throw new Error();
+            });
+          } catch (e) {}
+          numUnit.dispatch(5);
+          throw new Error();
+        })
+      ).toThrow();
+
+      expect(numUnit.value()).toBe(5);
+      expect(spy.calls.allArgs()).toEqual([[0], [5]]);
+    });
+  })
+);
@@ -0,0 +1,220 @@
+import {Configuration} from '../lib/configuration';
+import {UndoManager} from '../lib/undo-manager';
+import {Action} from '../lib/action';
+import {DictUnit} from '../lib/dict-unit';
+import {ListUnit} from '../lib/list-unit';
+import {NumUnit} from '../lib/num-unit';
+import {StringUnit} from '../lib/string-unit';
+import {randomNumber, randomString, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+describe(
+  'UndoManager',
+  times(10, () => {
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    it('should undo and redo the grouped changes as a single step', () => {
+      const dictUnit = new DictUnit<{a: string}>();
+      const listUnit = new ListUnit<string>({initialValue: [randomString()]});
+      const initialList = listUnit.value();
+      const undoManager = new UndoManager([dictUnit, listUnit]);
+      const value = randomString();
+
+      undoManager.group(() => {
+        dictUnit.set('a', value);
+        listUnit.push(value);
+        listUnit.shift();
+      });
+
+      expect(undoManager.undo()).toBe(true);
+      expect(dictUnit.value()).toEqual({} as {a: string});
+      expect(listUnit.value()).toEqual(initialList);
+      expect(undoManager.undo()).toBe(false);
+
+      expect(undoManager.redo()).toBe(true);
+      expect(dictUnit.value()).toEqual({a: value});
+      expect(listUnit.value()).toEqual([value]);
+      expect(undoManager.redo()).toBe(false);
+    });
+
+    it('should record every change as a separate step by default', () => {
+      const numUnit = new NumUnit();
+      const stringUnit = new StringUnit();
+      const undoManager = new UndoManager([numUnit, stringUnit]);
+
+      numUnit.dispatch(1);
+      stringUnit.dispatch('a');
+      numUnit.dispatch(2);
+      numUnit.dispatch(2);
+
+      expect(undoManager.undo()).toBe(true);
+      expect([numUnit.value(), stringUnit.value()]).toEqual([1, 'a']);
+      expect(undoManager.undo()).toBe(true);
+      expect([numUnit.value(), stringUnit.value()]).toEqual([1, '']);
+      expect(undoManager.undo()).toBe(true);
+      expect([numUnit.value(), stringUnit.value()]).toEqual([0, '']);
+      expect(undoManager.undo()).toBe(false);
+    });
+
+    it('should group the changes following an Action dispatch', () => {
+      const action = new Action<number>();
+      const numUnit = new NumUnit();
+      const stringUnit = new StringUnit();
+      const undoManager = new UndoManager([numUnit, stringUnit], {action});
+      action.subscribe(value => {
+        numUnit.dispatch(value);
+        stringUnit.dispatch(String(value));
+      });
+
+      action.dispatch(1);
+      action.dispatch(2);
+      numUnit.dispatch(3);
+
+      expect(undoManager.undo()).toBe(true);
+      expect([numUnit.value(), stringUnit.value()]).toEqual([1, '1']);
+      expect(undoManager.undo()).toBe(true);
+      expect([numUnit.value(), stringUnit.value()]).toEqual([0, '']);
+    });
+
+    it('should not record the rolled back changes', () => {
+      const numUnit = new NumUnit();
+      const undoManager = new UndoManager([numUnit]);
+
+      expect(() =>
+        undoManager.group(() => {
+          numUnit.dispatch(randomNumber(1, 10));
+          throw new Error();
+        })
+      ).toThrowError();
+
+      expect(numUnit.value()).toBe(0);
+      expect(undoManager.canUndo).toBe(false);
+    });
+
+    it('should forget the redo steps on a new change', () => {
+      const numUnit = new NumUnit();
+      const undoManager = new UndoManager([numUnit]);
+
+      numUnit.dispatch(1);
+      undoManager.undo();
+      expect(undoManager.canRedo).toBe(true);
+
+      numUnit.dispatch(2);
+      expect(undoManager.canRedo).toBe(false);
+      expect(undoManager.redo()).toBe(false);
+      expect(numUnit.value()).toBe(2);
+    });
+
+    it('should respect maxDepth', () => {
+      const maxDepth = randomNumber(1, 5);
+      const numUnit = new NumUnit();
+      const undoManager = new UndoManager([numUnit], {maxDepth});
+
+      for (let i = 1; i <= maxDepth + 3; i++) {
+        numUnit.dispatch(i);
+      }
+
+      let undoCount = 0;
+      while (undoManager.undo()) {
+        ++undoCount;
+      }
+      expect(undoCount).toBe(maxDepth);
+      expect(numUnit.value()).toBe(3);
+    });
+
+    it('should not record anything if maxDepth is 0', () => {
+      const numUnit = new NumUnit();
+      const undoManager = new UndoManager([numUnit], {maxDepth: 0});
+      const canUndoSpy = createSpy();
+      undoManager.canUndo$.subscribe(canUndoSpy);
+
+      numUnit.dispatch(1);
+      undoManager.group(() => numUnit.dispatch(2));
+
+      expect(undoManager.canUndo).toBe(false);
+      expect(undoManager.undo()).toBe(false);
+      expect(numUnit.value()).toBe(2);
+      expect(canUndoSpy.calls.allArgs()).toEqual([[false]]);
+    });
+
+    it('should emit whether it can undo or redo', () => {
+      const numUnit = new NumUnit();
+      const undoManager = new UndoManager([numUnit]);
+      const canUndoSpy = createSpy();
+      const canRedoSpy = createSpy();
+      undoManager.canUndo$.subscribe(canUndoSpy);
+      undoManager.canRedo$.subscribe(canRedoSpy);
+
+      numUnit.dispatch(1);
+      numUnit.dispatch(2);
+      undoManager.undo();
+      undoManager.undo();
+      undoManager.redo();
+
+      expect(canUndoSpy.calls.allArgs()).toEqual([[false], [true], [false], [true]]);
+      expect(canRedoSpy.calls.allArgs()).toEqual([[false], [true]]);
+    });
+
+    it('should stop recording once disposed', () => {
+      const numUnit = new NumUnit();
+      const undoManager = new UndoManager([numUnit]);
+      const completeSpy = createSpy();
+      undoManager.canUndo$.subscribe({complete: completeSpy});
+
+      numUnit.dispatch(1);
+      undoManager.dispose();
+      numUnit.dispatch(2);
+
+      expect(undoManager.undo()).toBe(false);
+      expect(completeSpy).toHaveBeenCalled();
+    });
+
+    it('should not move the step if a Unit does not accept its value', () => {
+      const numUnit = new NumUnit();
+      const stringUnit = new StringUnit();
+      const undoManager = new UndoManager([numUnit, stringUnit]);
+
+      undoManager.group(() => {
+        numUnit.dispatch(1);
+        stringUnit.dispatch('a');
+      });
+      stringUnit.freeze();
+
+      expect(undoManager.undo()).toBe(false);
+      expect([numUnit.value(), stringUnit.value()]).toEqual([1, 'a']);
+      expect(undoManager.canUndo).toBe(true);
+      expect(undoManager.canRedo).toBe(false);
+
+      stringUnit.unfreeze();
+      expect(undoManager.undo()).toBe(true);
+      expect([numUnit.value(), stringUnit.value()]).toEqual([0, '']);
+    });
+
+    it('should bypass the middlewares', async () => {
+      const middleware = createSpy().and.callFake((context, next) =>
+        Promise.resolve().then(() => next())
+      );
+      const numUnit = new NumUnit({middlewares: [middleware]});
+      const undoManager = new UndoManager([numUnit]);
+
+      expect(numUnit.dispatch(1)).toBe(undefined);
+      await Promise.resolve();
+      expect(numUnit.value()).toBe(1);
+
+      expect(undoManager.undo()).toBe(true);
+      expect(numUnit.value()).toBe(0);
+      await Promise.resolve();
+
+      expect(middleware).toHaveBeenCalledTimes(1);
+      expect(undoManager.canRedo).toBe(true);
+      expect(undoManager.redo()).toBe(true);
+      expect(numUnit.value()).toBe(1);
+    });
+
+    it('should only accept Units', () => {
+      expect(() => new UndoManager([new Action() as any])).toThrowError(TypeError);
+    });
+  })
+);
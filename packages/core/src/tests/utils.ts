@@ -1,9 +1,11 @@
 import * as Faker from 'faker';
 import {
+  AsyncStorageAdapter,
   AsyncSystemConfig,
   AsyncSystemValue,
   BaseConfig,
   ClusterItems,
+  PersistenceSyncTransport,
   SharedAsyncSystemConfig,
   UnitConfig,
 } from '../models';
@@ -52,10 +54,37 @@ export const RANDOM_CONFIG_OPTIONS_VALUE_PRODUCERS: Required<KeyValToKeyValProdu
 
   cacheSize: (validness?, nestingLvl?) => numberOrRandomValue(validness, nestingLvl, 0, 20),
 
+  historyMode: (validness?, nestingLvl?) =>
+    randomBoolean(validness)
+      ? selectRandom([undefined, 'VALUES', 'PATCHES'])
+      : randomValue(nestingLvl),
+
+  // positive windows and merging predicates would change the cache of the randomly configured Units
+  cacheCoalesce: (validness?, nestingLvl?) =>
+    randomBoolean(validness)
+      ? selectRandom([undefined, 0, -1, () => false])
+      : selectRandom([randomString(), randomBoolean(), null]),
+
   immutable: (validness?, nestingLvl?) => booleanOrRandomValue(validness, nestingLvl),
 
+  immutabilityMode: (validness?, nestingLvl?) =>
+    randomBoolean(validness)
+      ? selectRandom([undefined, 'DEEP_COPY', 'STRUCTURAL_SHARING'])
+      : randomValue(nestingLvl),
+
   persistent: (validness?, nestingLvl?) => booleanOrRandomValue(validness, nestingLvl),
 
+  persistCache: (validness?, nestingLvl?) => booleanOrRandomValue(validness, nestingLvl),
+
+  persistDebounce: (validness?, nestingLvl?) => numberOrRandomValue(validness, nestingLvl, 0, 20),
+
+  persistThrottle: (validness?, nestingLvl?) => numberOrRandomValue(validness, nestingLvl, 0, 20),
+
+  persistFailStrategy: (validness?, nestingLvl?) =>
+    randomBoolean(validness)
+      ? selectRandom([undefined, 'SKIP', 'EVICT_OLDEST', 'MEMORY'])
+      : randomValue(nestingLvl),
+
   storage: (validness?, nestingLvl?) =>
     randomBoolean(validness)
       ? selectRandom([localStorage, sessionStorage])
@@ -63,12 +92,34 @@ export const RANDOM_CONFIG_OPTIONS_VALUE_PRODUCERS: Required<KeyValToKeyValProdu
 
   distinctDispatchCheck: (validness?, nestingLvl?) => booleanOrRandomValue(validness, nestingLvl),
 
+  middlewares: (validness?, nestingLvl?) =>
+    randomBoolean(validness) ? [(context, next) => next()] : randomValue(nestingLvl),
+
+  syncAcrossTabs: (validness?, nestingLvl?) =>
+    randomBoolean(validness)
+      ? selectRandom([true, new MockSyncChannel().transport()])
+      : randomValue(1),
+
+  serialize: (validness?, nestingLvl?) =>
+    randomBoolean(validness) ? randomFn(nestingLvl) : randomValue(1),
+
+  deserialize: (validness?, nestingLvl?) =>
+    randomBoolean(validness) ? randomFn(nestingLvl) : randomValue(1),
+
+  encode: (validness?, nestingLvl?) =>
+    randomBoolean(validness) ? randomFn(nestingLvl) : randomValue(1),
+
+  decode: (validness?, nestingLvl?) =>
+    randomBoolean(validness) ? randomFn(nestingLvl) : randomValue(1),
+
   // UnitConfig
   id: (validness?, nestingLvl?) => stringOrRandomValue(validness, nestingLvl),
 
   customDispatchCheck: (validness?, nestingLvl?) =>
     randomBoolean(validness) ? randomFn(nestingLvl) : randomValue(1),
 
+  validate: (validness?, nestingLvl?) => (randomBoolean(validness) ? () => [] : randomValue(1)),
+
   dispatchDebounce: (validness?, nestingLvl?) =>
     randomBoolean(validness)
       ? randomBoolean(0.8)
@@ -81,6 +132,18 @@ export const RANDOM_CONFIG_OPTIONS_VALUE_PRODUCERS: Required<KeyValToKeyValProdu
       ? [undefined, 'START', 'END', 'BOTH'][randomNumber(0, 3)]
       : randomValue(nestingLvl),
 
+  persistenceVersion: (validness?, nestingLvl?) =>
+    numberOrRandomValue(validness, nestingLvl, 0, 10),
+
+  migrate: (validness?, nestingLvl?) =>
+    randomBoolean(validness) ? randomFn(nestingLvl) : randomValue(1),
+
+  persistPaths: (validness?, nestingLvl?) =>
+    randomBoolean(validness) ? multipleOf(() => randomKeys(3, 1)) : randomValue(1),
+
+  persistExcludePaths: (validness?, nestingLvl?) =>
+    randomBoolean(validness) ? multipleOf(() => randomKeys(3, 1)) : randomValue(1),
+
   // SharedAsyncSystemConfig
   clearErrorOnData: (validness?, nestingLvl?) => booleanOrRandomValue(validness, nestingLvl),
   clearErrorOnQuery: (validness?, nestingLvl?) => booleanOrRandomValue(validness, nestingLvl),
@@ -639,3 +702,54 @@ export class MockStorage implements Storage {
     });
   }
 }
+
+export class MockAsyncStorage implements AsyncStorageAdapter {
+  readonly store = new Map<string, string>();
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.store.get(key) ?? null);
+  }
+
+  set(key: string, value: string): Promise<void> {
+    this.store.set(key, value + '');
+    return Promise.resolve();
+  }
+
+  remove(key: string): Promise<void> {
+    this.store.delete(key);
+    return Promise.resolve();
+  }
+
+  keys(): Promise<string[]> {
+    return Promise.resolve([...this.store.keys()]);
+  }
+}
+
+// a BroadcastChannel like channel, every transport created by it represents a tab
+export class MockSyncChannel {
+  private readonly listeners = new Set<(key: string, value: string | null) => void>();
+
+  transport(): PersistenceSyncTransport {
+    let ownListener: (key: string, value: string | null) => void;
+
+    return {
+      listen: listener => {
+        ownListener = listener;
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+      },
+      post: (key, value) => {
+        this.listeners.forEach(listener => listener !== ownListener && listener(key, value));
+      },
+    };
+  }
+
+  // simulates a message from a tab that isn't listening
+  send(key: string, value: string | null): void {
+    this.listeners.forEach(listener => listener(key, value));
+  }
+
+  get listenersCount(): number {
+    return this.listeners.size;
+  }
+}
@@ -0,0 +1,195 @@
+import {Configuration} from '../lib/configuration';
+import {KeyPrefix} from '../lib/persistence';
+import {restoreState} from '../lib/snapshot';
+import {DictUnit} from '../lib/dict-unit';
+import {EntityUnit} from '../lib/entity-unit';
+import {ListUnit} from '../lib/list-unit';
+import {NumUnit} from '../lib/num-unit';
+import {ValidationError} from '../models/units';
+import {DispatchFailReason, EventUnitDispatchFail} from '../models/events';
+import {randomNumber, randomString, times} from './utils';
+import createSpy = jasmine.createSpy;
+
+interface User {
+  name: string;
+  age: number;
+}
+
+describe(
+  'Schema Validation',
+  times(10, () => {
+    beforeEach(() => {
+      Configuration.reset();
+    });
+
+    let idCounter = 0;
+    const uniqueId = () => 'validation_' + randomString() + '_' + ++idCounter;
+
+    const validateUser = (user: User): ValidationError[] => {
+      const errors: ValidationError[] = [];
+      if (typeof user.name !== 'string') {
+        errors.push({path: ['name'], message: 'name must be a string'});
+      }
+      if (typeof user.age !== 'number') {
+        errors.push({path: ['age'], message: 'age must be a number'});
+      }
+      return errors;
+    };
+    const validUser = (): User => ({name: randomString(), age: randomNumber(1, 100)});
+
+    it('should not dispatch the invalid values', () => {
+      const initialValue = validUser();
+      const dictUnit = new DictUnit<User>({initialValue, validate: validateUser});
+      const eventsSpy = createSpy();
+      dictUnit.events$.subscribe(eventsSpy);
+      const invalidUser = {name: 1} as any;
+
+      expect(dictUnit.wouldDispatch(invalidUser)).toBe(false);
+      expect(dictUnit.wouldDispatch(invalidUser, true)).toBe(false);
+      expect(dictUnit.dispatch(invalidUser, {force: true})).toBe(false);
+
+      expect(dictUnit.value()).toEqual(initialValue);
+      expect(eventsSpy).toHaveBeenCalledWith(
+        new EventUnitDispatchFail(
+          invalidUser,
+          DispatchFailReason.SCHEMA_VALIDATION,
+          {force: true},
+          [
+            {path: ['name'], message: 'name must be a string'},
+            {path: ['age'], message: 'age must be a number'},
+          ]
+        )
+      );
+
+      const user = validUser();
+      expect(dictUnit.dispatch(user)).toBe(true);
+      expect(dictUnit.value()).toEqual(user);
+    });
+
+    it('should only validate once per dispatch', () => {
+      const validate = createSpy().and.callFake(validateUser);
+      const dictUnit = new DictUnit<User>({initialValue: validUser(), validate});
+      dictUnit.events$.subscribe();
+      validate.calls.reset();
+
+      expect(dictUnit.dispatch({name: 1} as any)).toBe(false);
+      expect(validate).toHaveBeenCalledTimes(1);
+
+      expect(dictUnit.dispatch(validUser())).toBe(true);
+      expect(validate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not report the errors for the other fail reasons', () => {
+      const numUnit = new NumUnit({validate: () => [], customDispatchCheck: () => false});
+      const eventsSpy = createSpy();
+      numUnit.events$.subscribe(eventsSpy);
+
+      numUnit.dispatch('a' as any);
+      numUnit.dispatch(1);
+
+      expect(eventsSpy.calls.allArgs().map(([event]) => [event.reason, event.errors])).toEqual([
+        [DispatchFailReason.INVALID_VALUE, undefined],
+        [DispatchFailReason.CUSTOM_DISPATCH_CHECK, undefined],
+      ]);
+    });
+
+    it('should consider the value invalid if the validation throws', () => {
+      const numUnit = new NumUnit({
+        validate: value => {
+          if (value > 10) {
+            throw new Error('too big');
+          }
+        },
+      });
+      const eventsSpy = createSpy();
+      numUnit.events$.subscribe(eventsSpy);
+
+      expect(numUnit.dispatch(11)).toBe(false);
+      expect(eventsSpy.calls.mostRecent().args[0].errors).toEqual([{path: [], message: 'too big'}]);
+    });
+
+    it('should fall back to the default value, without validating it, if the initialValue is invalid', () => {
+      const dictUnit = new DictUnit<User>({
+        initialValue: {name: randomString()} as User,
+        validate: validateUser,
+      });
+
+      expect(dictUnit.value()).toEqual({} as User);
+      expect(dictUnit.wouldDispatch(dictUnit.value(), true)).toBe(false);
+    });
+
+    it('should not commit the invalid values produced by the mutation methods', () => {
+      const initialValue = validUser();
+      const dictUnit = new DictUnit<User>({initialValue, validate: validateUser});
+      const listUnit = new ListUnit<number>({
+        initialValue: [1, 2],
+        validate: list => (list.length > 2 ? [{path: [], message: 'too long'}] : []),
+      });
+      const entityUnit = new EntityUnit<User, string>({
+        selectId: user => user.name,
+        validate: ({entities}) =>
+          Object.values(entities).flatMap(user =>
+            validateUser(user).map(({path, message}) => ({path: [user.name, ...path], message}))
+          ),
+      });
+      const eventsSpy = createSpy();
+      dictUnit.events$.subscribe(eventsSpy);
+
+      dictUnit.set('age', 'oops' as any);
+      dictUnit.assign({...validUser(), age: null});
+      dictUnit.delete('name');
+      expect(listUnit.push(3)).toBe(2);
+      expect(listUnit.insert(0, 0)).toBe(2);
+      entityUnit.upsert({name: 'a', age: null});
+
+      expect(dictUnit.value()).toEqual(initialValue);
+      expect(listUnit.value()).toEqual([1, 2]);
+      expect(entityUnit.ids()).toEqual([]);
+      expect(eventsSpy.calls.allArgs()).toEqual([
+        [
+          new EventUnitDispatchFail(
+            {...initialValue, age: 'oops' as any},
+            DispatchFailReason.SCHEMA_VALIDATION,
+            undefined,
+            [{path: ['age'], message: 'age must be a number'}]
+          ),
+        ],
+        [jasmine.any(EventUnitDispatchFail)],
+        [jasmine.any(EventUnitDispatchFail)],
+      ]);
+
+      dictUnit.set('age', 1);
+      expect(dictUnit.value()).toEqual({...initialValue, age: 1});
+    });
+
+    it('should discard the invalid persisted value', () => {
+      const id = uniqueId();
+      const initialValue = validUser();
+      localStorage.setItem(KeyPrefix + id, JSON.stringify({value: {name: null, age: 'x'}}));
+
+      const dictUnit = new DictUnit<User>({
+        id,
+        initialValue,
+        persistent: true,
+        validate: validateUser,
+      });
+
+      expect(dictUnit.value()).toEqual(initialValue);
+      localStorage.removeItem(KeyPrefix + id);
+    });
+
+    it('should not restore the invalid snapshots', () => {
+      const id = uniqueId();
+      const initialValue = validUser();
+      const dictUnit = new DictUnit<User>({id, initialValue, validate: validateUser});
+
+      const restoredIds = restoreState(
+        {[id]: {value: {name: 1}, cachedValues: [{name: 1}], cacheIndex: 0, isFrozen: false}},
+        {force: true}
+      );
+
+      expect(restoredIds).toEqual([]);
+      expect(dictUnit.value()).toEqual(initialValue);
+    });
+  })
+);
@@ -26,6 +26,13 @@ export function isDict(o: any): o is object {
   return Object.prototype.toString.call(o) === '[object Object]';
 }
 
+/**
+ * @internal please do not use.
+ */
+export function hasOwn(o: any, key: PropertyKey): boolean {
+  return Object.prototype.hasOwnProperty.call(o, key);
+}
+
 /**
  * @internal please do not use.
  */
@@ -126,16 +133,18 @@ export function deepCopy<T>(o: T): T {
 
 /**
  * @internal please do not use.
+ *
+ * If `skipFrozen` is true, the already frozen objects are assumed to be deep-frozen, and are not traversed.
  */
-export function deepFreeze<T>(o: T): T {
-  if (!isObject(o)) {
+export function deepFreeze<T>(o: T, skipFrozen = false): T {
+  if (!isObject(o) || (skipFrozen && Object.isFrozen(o))) {
     return o;
   }
 
   if (Array.isArray(o)) {
-    (o as any).forEach(v => deepFreeze(v));
+    (o as any).forEach(v => deepFreeze(v, skipFrozen));
   } else if (isDict(o)) {
-    Object.keys(o).forEach(k => deepFreeze(o[k]));
+    Object.keys(o).forEach(k => deepFreeze(o[k], skipFrozen));
   }
 
   try {
@@ -325,6 +334,64 @@ export function plucker<T>(o: T, path: (string | number)[]): any {
   return o;
 }
 
+/**
+ * @internal please do not use.
+ */
+export function hasPath<T>(o: T, path: (string | number)[]): boolean {
+  return (
+    Array.isArray(path) &&
+    path.every(key => {
+      if (!isObject(o) || !Object.prototype.hasOwnProperty.call(o, key)) {
+        return false;
+      }
+      o = o[key];
+      return true;
+    })
+  );
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Sets the value at the path, without mutating the object,
+ * only the objects along the path get shallow copied, and the missing ones get created.
+ */
+export function setAtPath<T>(o: T, path: (string | number)[], value: any): T {
+  if (!path.length) {
+    return value;
+  }
+  const [key, ...restPath] = path;
+  const copy: any = Array.isArray(o)
+    ? [...o]
+    : isObject(o)
+    ? {...o}
+    : typeof key === 'number'
+    ? []
+    : {};
+  copy[key] = setAtPath(copy[key], restPath, value);
+  return copy;
+}
+
+/**
+ * @internal please do not use.
+ *
+ * Deletes the property at the path, without mutating the object,
+ * only the objects along the path get shallow copied.
+ */
+export function deleteAtPath<T>(o: T, path: (string | number)[]): T {
+  if (!path.length || !hasPath(o, path)) {
+    return o;
+  }
+  const [key, ...restPath] = path;
+  const copy: any = Array.isArray(o) ? [...o] : {...o};
+  if (restPath.length) {
+    copy[key] = deleteAtPath(copy[key], restPath);
+  } else {
+    delete copy[key];
+  }
+  return copy;
+}
+
 /**
  * @internal please do not use.
  */